@@ -2,6 +2,7 @@ import { Animator } from '../animator';
 import { ClientGame } from '../clientGame';
 import { DeckList } from '../deckList';
 import { GameSyncEvent, SyncEventType } from '../events/syncEvent';
+import { GamePhase } from '../game';
 
 /**
  * An Artificial Intelligence that can play the game.
@@ -15,6 +16,7 @@ export abstract class AI {
 
     protected isImmediateMode = false;
     protected actionSequence: Array<() => boolean> = [];
+    protected responseSequence: Array<() => boolean> = [];
     protected animator?: Animator;
     protected thinking = false;
 
@@ -45,10 +47,10 @@ export abstract class AI {
 
         if (!this.processingEvent) {
             this.processingEvent = true;
-            this.game.syncServerEvent(this.playerNumber, event);
+            this.syncEvent(event);
             while (this.eventQueue.length > 0) {
                 const ev = this.eventQueue.shift() as GameSyncEvent;
-                this.game.syncServerEvent(this.playerNumber, ev);
+                this.syncEvent(ev);
             }
             this.processingEvent = false;
 
@@ -58,6 +60,17 @@ export abstract class AI {
         }
     }
 
+    /** Syncs an event into our game model, reacting if it gives us priority */
+    private syncEvent(event: GameSyncEvent) {
+        this.game.syncServerEvent(this.playerNumber, event);
+        if (
+            event.type === SyncEventType.PriortyGained &&
+            event.player === this.playerNumber
+        ) {
+            this.onGainPriority();
+        }
+    }
+
     /** Gets the number of the player this A.I controls */
     getPlayerNumber(): number {
         return this.playerNumber;
@@ -72,7 +85,12 @@ export abstract class AI {
             return;
         }
 
-        const next = this.actionSequence.shift() || (() => this.game.pass());
+        // Responses are kept separately so that they do not disrupt the plan for our own turn
+        const sequence =
+            this.game.getPhase() === GamePhase.Response
+                ? this.responseSequence
+                : this.actionSequence;
+        const next = sequence.shift() || (() => this.game.pass());
         this.runAction(next);
     }
 
@@ -127,6 +145,7 @@ export abstract class AI {
      */
     public stopActing() {
         this.actionSequence.length = 0;
+        this.responseSequence.length = 0;
         this.isImmediateMode = false;
         if (this.timer !== undefined) {
             clearInterval(this.timer);
@@ -180,4 +199,19 @@ export abstract class AI {
             this.actionSequence = actions.map(action => action.bind(this));
         }
     }
+
+    /**
+     * Sets the actions to take while we hold priority during a response phase.
+     * Once they have all run the A.I will pass, letting the stack resolve.
+     * @param actions - The responses to make
+     */
+    protected sequenceResponses(actions: Array<() => boolean>) {
+        if (this.isImmediateMode) {
+            for (const action of actions) {
+                this.runAction(action);
+            }
+        } else {
+            this.responseSequence = actions.map(action => action.bind(this));
+        }
+    }
 }
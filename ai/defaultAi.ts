@@ -1,6 +1,7 @@
 import { maxBy, meanBy, minBy, remove, sortBy, sumBy, take } from 'lodash';
 import { knapsack, KnapsackItem } from '../algorithms';
 import { Card, CardType } from '../card-types/card';
+import { ChoiceSource } from '../choice';
 import { Enchantment } from '../card-types/enchantment';
 import { Item } from '../card-types/item';
 import { Unit, isUnit } from '../card-types/unit';
@@ -49,7 +50,6 @@ interface EvaluatedAction {
  *
  */
 export class DefaultAI extends AI {
-    protected enemyNumber: number;
     protected aiPlayer: Player;
 
     public static getDeckbuilder(): DeckBuilder {
@@ -67,7 +67,6 @@ export class DefaultAI extends AI {
     constructor(playerNumber: number, game: ClientGame, deck: DeckList) {
         super(playerNumber, game, deck);
         this.aiPlayer = this.game.getPlayer(this.playerNumber);
-        this.enemyNumber = this.game.getOtherPlayerNumber(this.playerNumber);
         this.game.setOwningPlayer(this.playerNumber);
 
         this.game.promptCardChoice = this.makeChoice.bind(this);
@@ -75,7 +74,9 @@ export class DefaultAI extends AI {
 
     /** Triggers the A.I to consider what its next action should be */
     protected think() {
-        if (this.game.getPhase() === GamePhase.Block) {
+        if (this.game.getPhase() === GamePhase.Response) {
+            this.respond();
+        } else if (this.game.getPhase() === GamePhase.Block) {
             this.block();
         } else {
             if (this.game.canPlayResource()) {
@@ -152,6 +153,23 @@ export class DefaultAI extends AI {
         return mandatory.concat(take(optional, max - mandatory.length));
     }
 
+    /** Decides whether to redraw a whole hand.
+     * We redraw if most of the hand is worse than the average card in our deck based on the card draw heuristic. */
+    protected evaluateToRedraw(
+        choices: Card[],
+        min: number,
+        max: number
+    ): Card[] {
+        const average = meanBy(
+            this.deck.getUniqueCards(),
+            this.cardDrawHeuristic.bind(this)
+        );
+        const worse = choices.filter(
+            card => this.cardDrawHeuristic(card) > average
+        );
+        return worse.length > choices.length / 2 ? choices : [];
+    }
+
     /** A heuristic that chooses the unit with the highest total stats (all choices must be Units) */
     protected highestStatHeuristic(
         choices: Card[],
@@ -177,6 +195,8 @@ export class DefaultAI extends AI {
                 return this.highestStatHeuristic.bind(this);
             case ChoiceHeuristic.ReplaceHeuristic:
                 return this.evaluateToReplace.bind(this);
+            case ChoiceHeuristic.RedrawHeuristic:
+                return this.evaluateToRedraw.bind(this);
         }
     }
 
@@ -206,12 +226,22 @@ export class DefaultAI extends AI {
         max: number = 1,
         callback: ((cards: Card[]) => void) | null = null,
         message: string,
-        heuristicType: ChoiceHeuristic
+        heuristicType: ChoiceHeuristic,
+        source?: ChoiceSource
     ) {
         if (!callback) {
             return;
         }
-        this.game.deferChoice(player, options, min, max, callback);
+        this.game.deferChoice(
+            player,
+            options,
+            min,
+            max,
+            callback,
+            message,
+            heuristicType,
+            source
+        );
         if (player !== this.playerNumber) {
             return;
         }
@@ -339,6 +369,29 @@ export class DefaultAI extends AI {
         return true;
     }
 
+    /**
+     * Decides whether to play an instant while we hold priority.
+     *
+     * The A.I plays the single best instant if its heuristic value is positive, otherwise it lets the stack resolve.
+     *
+     * Known Flaws
+     *  - The A.I does not look at what is on the stack, so it cannot save a unit from a removal spell on purpose.
+     */
+    protected respond() {
+        const instants = this.aiPlayer
+            .getHand()
+            .filter(card => card.isPlayable(this.game));
+        const best = maxBy(
+            instants.map(card => this.evaluateCard(card)),
+            evaluated => evaluated.score
+        );
+        if (best && best.score > 0) {
+            this.sequenceResponses([() => this.runCardPlayAction(best)]);
+        } else {
+            this.sequenceResponses([]);
+        }
+    }
+
     /** Plays a card based on an action */
     protected runCardPlayAction(action: EvaluatedAction) {
         const targets: Permanent[] = [];
@@ -490,6 +543,7 @@ export class DefaultAI extends AI {
      * Chooses which, if any, units to attack with.
      * The A.I will choose to attack with any units it would not block if it were the opponent.
      * That is to say, any unit where the canFavorablyBlock function returns false for all enemy units.
+     * With more than one opponent, it attacks whichever opponent those units would deal the most damage to.
      *
      * Known Flaws
      *  - The A.I should attack if it could guarantee lethal damage regardless of trades, but that is not implemented.
@@ -504,24 +558,38 @@ export class DefaultAI extends AI {
             .getPlayerUnits(this.playerNumber)
             .filter(unit => unit.canAttack())
             .filter(unit => unit.getDamage() > 0);
+        const target = maxBy(
+            this.game.getOpponents(this.playerNumber),
+            opponent =>
+                sumBy(
+                    this.getUnblockedAttackers(potentialAttackers, opponent),
+                    attacker => attacker.getDamage()
+                )
+        );
+        if (target === undefined) {
+            return true;
+        }
+        for (const attacker of this.getUnblockedAttackers(
+            potentialAttackers,
+            target
+        )) {
+            this.game.declareAttacker(attacker, target);
+        }
+        return true;
+    }
+
+    /** Gets the attackers that none of an opponents unexhausted units could favorably block */
+    protected getUnblockedAttackers(attackers: Unit[], opponent: number) {
         const potentialBlockers = this.game
             .getBoard()
-            .getPlayerUnits(this.enemyNumber)
+            .getPlayerUnits(opponent)
             .filter(unit => !unit.isExhausted());
-
-        for (const attacker of potentialAttackers) {
-            let hasBlocker = false;
-            for (const blocker of potentialBlockers) {
-                if (this.canFavorablyBlock(attacker, blocker)) {
-                    hasBlocker = true;
-                    break;
-                }
-            }
-            if (!hasBlocker) {
-                this.game.declareAttacker(attacker);
-            }
-        }
-        return true;
+        return attackers.filter(
+            attacker =>
+                !potentialBlockers.some(blocker =>
+                    this.canFavorablyBlock(attacker, blocker)
+                )
+        );
     }
 
     /**
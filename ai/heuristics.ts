@@ -7,5 +7,7 @@ export enum ChoiceHeuristic {
     DrawHeuristic,
     DiscardHeuristic,
     ReplaceHeuristic,
-    HighestStatsHeuristic
+    HighestStatsHeuristic,
+    // Chooses either every card or none of them
+    RedrawHeuristic
 }
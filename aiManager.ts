@@ -1,6 +1,7 @@
 import { DefaultAI } from './ai/defaultAi';
 import { AIConstructor } from './ai/aiList';
 import { DeckList } from './deckList';
+import { GameResult } from './game';
 import { decksByLevel, DifficultyLevel } from './scenarios/decks';
 import { sample } from 'lodash';
 
@@ -9,14 +10,21 @@ export type ConcreteDifficulty = Exclude<
     DifficultyLevel.Dynamic
 >;
 
+export interface GameRecord {
+    wins: number;
+    losses: number;
+    // Missing from records saved before draws were tracked
+    draws?: number;
+}
+
 export interface AiData {
     selectedDifficulty: DifficultyLevel;
 
     playerRecord: {
-        easy: { wins: number, losses: number },
-        medium: { wins: number, losses: number },
-        hard: { wins: number, losses: number },
-        expert: { wins: number, losses: number }
+        easy: GameRecord,
+        medium: GameRecord,
+        hard: GameRecord,
+        expert: GameRecord
     };
 
     autoDifficulty: ConcreteDifficulty;
@@ -29,24 +37,42 @@ export interface AiData {
 class AIManager {
     private selectedDifficulty = DifficultyLevel.Dynamic;
     private autoDifficulty: ConcreteDifficulty = DifficultyLevel.Easy;
-    private playerRecord = {
-        easy: { wins: 0, losses: 0 },
-        medium: { wins: 0, losses: 0 },
-        hard: { wins: 0, losses: 0 },
-        expert: { wins: 0, losses: 0 }
+    private playerRecord: AiData['playerRecord'] = {
+        easy: { wins: 0, losses: 0, draws: 0 },
+        medium: { wins: 0, losses: 0, draws: 0 },
+        hard: { wins: 0, losses: 0, draws: 0 },
+        expert: { wins: 0, losses: 0, draws: 0 }
     };
 
     public save: (data: AiData) => void = () => null;
 
-    public recordGameResult(playerWon: boolean) {
+    /**
+     * Records the result of a game against the A.I.
+     *
+     * @param result - How the game ended for the player, true and false can be used for a win and a loss
+     */
+    public recordGameResult(result: GameResult | boolean) {
+        if (typeof result === 'boolean') {
+            result = result ? GameResult.Win : GameResult.Loss;
+        }
         const record = this.getCurrentRecord();
-        if (playerWon) {
-            record.wins++;
-        } else {
-            record.losses++;
+        switch (result) {
+            case GameResult.Win:
+                record.wins++;
+                break;
+            case GameResult.Loss:
+                record.losses++;
+                break;
+            case GameResult.Draw:
+                record.draws = (record.draws || 0) + 1;
+                break;
         }
         if (this.selectedDifficulty === DifficultyLevel.Dynamic) {
-            const winRate = record.wins / (record.wins + record.losses);
+            // A draw counts as half a win
+            const draws = record.draws || 0;
+            const winRate =
+                (record.wins + draws / 2) /
+                (record.wins + record.losses + draws);
             if (this.autoDifficulty < DifficultyLevel.Expert && winRate > 0.65) {
                 this.autoDifficulty++;
             } else if (this.autoDifficulty > DifficultyLevel.Easy && winRate < 0.45) {
@@ -71,3 +71,38 @@ export function knapsack<T>(capacity: number, items: KnapsackItem<T>[]) {
         set: solutionSet as KnapsackItem<T>[]
     };
 }
+
+/** Lists every ordering of the given items */
+export function permutations<T>(items: T[]): T[][] {
+    if (items.length <= 1) {
+        return [[...items]];
+    }
+    const results: T[][] = [];
+    items.forEach((item, i) => {
+        const rest = [...items.slice(0, i), ...items.slice(i + 1)];
+        for (const permutation of permutations(rest)) {
+            results.push([item, ...permutation]);
+        }
+    });
+    return results;
+}
+
+/** Lists every subset of the given items with between min and max (inclusive) members */
+export function combinations<T>(items: T[], min: number, max: number): T[][] {
+    const results: T[][] = [];
+    const build = (start: number, current: T[]) => {
+        if (current.length >= min) {
+            results.push([...current]);
+        }
+        if (current.length === max) {
+            return;
+        }
+        for (let i = start; i < items.length; i++) {
+            current.push(items[i]);
+            build(i + 1, current);
+            current.pop();
+        }
+    };
+    build(0, []);
+    return results;
+}
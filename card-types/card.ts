@@ -1,14 +1,16 @@
-import { EvalContext, EvalMap } from '../mechanic';
+import { EvalContext, EvalMap, Mechanic } from '../mechanic';
 import { CardEventSystem } from '../events/eventSystems';
 import { Resource } from '../resource';
 import { Game } from '../game';
 import { Targeter } from '../targeter';
+import { CardData } from '../cards/cardList';
 
 export enum GameZone {
     Deck,
     Hand,
     Board,
-    Crypt
+    Crypt,
+    Stack
 }
 
 export enum CardType {
@@ -18,6 +20,12 @@ export enum CardType {
     Enchantment
 }
 
+/**
+ * The rarity of cards that are not given one.
+ * Rarities are names, each format sets the copy limit and booster weight of the rarities it names.
+ */
+export const commonRarity = 'Common';
+
 
 export interface CardPrototype {
     id: string;
@@ -50,6 +58,8 @@ export interface Card {
 
     isPlayable(game: Game): boolean;
 
+    isInstant(): boolean;
+
     getPrototype(): CardPrototype;
 
     isAttacking(): boolean;
@@ -70,6 +80,8 @@ export interface Card {
 
     getTargeters(): Targeter[];
 
+    getMechanics(): Mechanic[];
+
     setOwner(owner: number): void;
 
     setId(id: string): void;
@@ -78,6 +90,12 @@ export interface Card {
 
     getName(): string;
 
+    getRarity(): string;
+
+    setRarity(rarity: string): void;
+
+    toCardData(): CardData;
+
     isUnit(): boolean;
 
     toString(): string;
@@ -1,10 +1,11 @@
 import { CardType, GameZone, Card } from './card';
-import { Game } from '../game';
+import { Game, GamePhase } from '../game';
 import { EvalContext, Mechanic, EvalMap } from '../mechanic';
 import { Permanent } from './permanent';
 import { Player } from '../player';
 import { Resource } from '../resource';
 import { Targeter } from '../targeter';
+import { EnchantmentData } from '../cards/cardList';
 
 export class Enchantment extends Permanent {
     private power: number;
@@ -34,6 +35,7 @@ export class Enchantment extends Permanent {
     public canChangePower(player: Player, game: Game) {
         return (
             game.getCurrentPlayer() === player &&
+            game.getPhase() !== GamePhase.Response &&
             player.getPool().meetsReq(this.costResource) &&
             (player.getPlayerNumber() === this.owner
                 ? this.canBeEmpowered
@@ -49,10 +51,31 @@ export class Enchantment extends Permanent {
         this.canBeDiminished = val;
     }
 
+    public isEmpowerable() {
+        return this.canBeEmpowered;
+    }
+
+    public isDiminishable() {
+        return this.canBeDiminished;
+    }
+
     public getPower() {
         return this.power;
     }
 
+    public setPower(power: number) {
+        this.power = power;
+    }
+
+    public toCardData(): EnchantmentData {
+        return {
+            ...this.getBaseCardData(),
+            cardType: CardType.Enchantment,
+            power: this.power,
+            empowerCost: this.changeCost
+        };
+    }
+
     public empowerOrDiminish(player: Player, game: Game) {
         player.reduceResource(new Resource(this.changeCost));
         this.changePower(player.getPlayerNumber() === this.owner ? 1 : -1);
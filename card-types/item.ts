@@ -5,6 +5,7 @@ import { Permanent } from './permanent';
 import { Resource } from '../resource';
 import { Targeter } from '../targeter';
 import { Unit } from './unit';
+import { ItemData } from '../cards/cardList';
 
 export class Item extends Permanent {
     private host: Unit | null = null;
@@ -64,6 +65,16 @@ export class Item extends Permanent {
         return this.damageBonus + this.lifeBonus;
     }
 
+    public toCardData(): ItemData {
+        return {
+            ...this.getBaseCardData(),
+            cardType: CardType.Item,
+            life: this.lifeBonus,
+            damage: this.damageBonus,
+            hostTargeter: this.hostTargeter.toData()
+        };
+    }
+
     public getCardType() {
         return CardType.Item;
     }
@@ -81,6 +92,15 @@ export class Item extends Permanent {
     }
 
     public attach(host: Unit, game: Game) {
+        this.attachTo(host, game, true);
+    }
+
+    /** Attaches the item to a unit without activating its play effects (used when restoring a saved game) */
+    public reattach(host: Unit, game: Game) {
+        this.attachTo(host, game, false);
+    }
+
+    private attachTo(host: Unit, game: Game, activatePlayEffects: boolean) {
         host.buff(this.damageBonus, this.lifeBonus);
         host.addItem(this);
         this.host = host;
@@ -92,6 +112,7 @@ export class Item extends Permanent {
             if ((<TriggeredMechanic>clone).getTrigger) {
                 (<TriggeredMechanic>clone).getTrigger().register(this, game);
                 if (
+                    activatePlayEffects &&
                     (<TriggeredMechanic>clone).getTrigger().getId() === 'Play'
                 ) {
                     (<TriggeredMechanic>clone).onTrigger(host, game);
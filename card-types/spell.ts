@@ -11,7 +11,8 @@ import {
 import { Resource } from '../resource';
 import { Targeter } from '../targeter';
 import { Unit } from './unit';
-import { Card, GameZone, CardType } from './card';
+import { Card, GameZone, CardType, commonRarity } from './card';
+import { CardData } from '../cards/cardList';
 // import { Permanent } from './permanent';
 
 
@@ -25,6 +26,7 @@ export class Spell implements Card {
 
     protected cost: Resource;
     protected owner = -1;
+    protected rarity = commonRarity;
     protected dataId: string;
     protected imageUrl: string;
     protected location: GameZone;
@@ -113,9 +115,8 @@ export class Spell implements Card {
         }
         const owner = game.getPlayer(this.owner);
         return (
-            game.isPlayerTurn(this.owner) &&
+            game.canPlayCardNow(this) &&
             game.canTakeAction() &&
-            game.isPlayPhase() &&
             owner.getPool().meetsReq(this.cost) &&
             (!this.targeter.needsInput() ||
                 this.targeter.isOptional() ||
@@ -123,6 +124,11 @@ export class Spell implements Card {
         );
     }
 
+    public isInstant() {
+        // Compared by id, as importing the Instant mechanic here would be circular
+        return this.mechanics.some(mechanic => mechanic.getId() === 'Instant');
+    }
+
     public getPrototype() {
         return {
             id: this.getId(),
@@ -177,6 +183,10 @@ export class Spell implements Card {
         return this.targeter;
     }
 
+    public getMechanics() {
+        return this.mechanics;
+    }
+
     public getTargeters(): Targeter[] {
         return [this.targeter];
     }
@@ -200,6 +210,37 @@ export class Spell implements Card {
         return this.name;
     }
 
+    public getRarity() {
+        return this.rarity;
+    }
+
+    public setRarity(rarity: string) {
+        this.rarity = rarity;
+    }
+
+    /**
+     * Converts the card as it is now, including any changes made to it during play,
+     * to data that CardList can build an identical card from.
+     */
+    public toCardData(): CardData {
+        return { ...this.getBaseCardData(), cardType: CardType.Spell };
+    }
+
+    /** Gets the data shared by every type of card */
+    protected getBaseCardData() {
+        return {
+            id: this.dataId,
+            name: this.name,
+            imageUrl: this.imageUrl,
+            cost: this.cost.getPrototype(),
+            rarity: this.rarity,
+            targeter: this.targeter.toData(),
+            mechanics: this.mechanics.map(mechanic => mechanic.toData(this)),
+            // Only cards whose text is written out instead of generated keep it
+            ...(this.text ? { text: this.text } : {})
+        };
+    }
+
     public isUnit(): boolean {
         return this.getCardType() === CardType.Unit;
     }
@@ -8,6 +8,8 @@ import { EvalContext, Mechanic, EvalMap } from '../mechanic';
 import { Permanent } from './permanent';
 import { Resource } from '../resource';
 import { Targeter } from '../targeter';
+import { MechanicData } from '../cards/mechanicList';
+import { UnitData } from '../cards/cardList';
 
 export enum UnitType {
     Player,
@@ -45,6 +47,21 @@ export function isMechanical(unit: Unit) {
     return mechanical.has(unit.getUnitType());
 }
 
+/** The parts of a unit that can change while it is in play */
+export interface UnitState {
+    damage: number;
+    life: number;
+    maxLife: number;
+    exhausted: boolean;
+    ready: boolean;
+    attacking: boolean;
+    blockedUnitId: string | null;
+    attackDisabled: boolean;
+    blockDisabled: boolean;
+    immunities: string[];
+    mechanics: MechanicData[];
+}
+
 class Damager {
     private events: EventList<DealDamageEvent>;
     constructor(
@@ -122,6 +139,10 @@ export class Unit extends Permanent implements Damagable {
         remove(this.items, item);
     }
 
+    public getItems() {
+        return this.items;
+    }
+
     public isPlayable(game: Game): boolean {
         return super.isPlayable(game) && game.getBoard().canPlayPermanent(this);
     }
@@ -205,6 +226,16 @@ export class Unit extends Permanent implements Damagable {
         return this.maxLife + this.damage;
     }
 
+    public toCardData(): UnitData {
+        return {
+            ...this.getBaseCardData(),
+            cardType: CardType.Unit,
+            life: this.maxLife,
+            damage: this.damage,
+            type: this.unitType
+        };
+    }
+
     public setExhausted(exhausted: boolean) {
         this.exhausted = exhausted;
     }
@@ -281,6 +312,39 @@ export class Unit extends Permanent implements Damagable {
         return this.blockedUnitId;
     }
 
+    public getState(): UnitState {
+        return {
+            damage: this.damage,
+            life: this.life,
+            maxLife: this.maxLife,
+            exhausted: this.exhausted,
+            ready: this.ready,
+            attacking: this.attacking,
+            blockedUnitId: this.blockedUnitId,
+            attackDisabled: this.attackDisabled,
+            blockDisabled: this.blockDisabled,
+            immunities: Array.from(this.immunities),
+            mechanics: this.mechanics.map(mechanic => mechanic.toData(this))
+        };
+    }
+
+    /**
+     * Overwrites the units stats and status with a saved state.
+     * Mechanics are not changed, they must be added or removed separately.
+     */
+    public setState(state: UnitState) {
+        this.damage = state.damage;
+        this.life = state.life;
+        this.maxLife = state.maxLife;
+        this.exhausted = state.exhausted;
+        this.ready = state.ready;
+        this.attacking = state.attacking;
+        this.blockedUnitId = state.blockedUnitId;
+        this.attackDisabled = state.attackDisabled;
+        this.blockDisabled = state.blockDisabled;
+        this.immunities = new Set(state.immunities);
+    }
+
     public setStats(damage: number, maxLife: number) {
         this.damage = damage;
         this.maxLife = maxLife;
@@ -9,4 +9,12 @@ export interface SetInformation {
 
 export interface CardSet extends SetInformation {
     cards: CardData[];
-}
\ No newline at end of file
+}
+
+/** The set of cards built into the game */
+export const coreSet: SetInformation = {
+    id: 'core',
+    name: 'Core Set',
+    description: 'The cards included with the game.',
+    public: true
+};
@@ -1,6 +1,8 @@
 import { values } from 'lodash';
-import { Card, CardType } from '../card-types/card';
+import { Card, CardType, commonRarity } from '../card-types/card';
 import { Enchantment } from '../card-types/enchantment';
+import { CardSet, coreSet, SetInformation } from '../cardSet';
+import { withRarity } from './cardRarities';
 import { Item } from '../card-types/item';
 import { Resource, ResourcePrototype } from '../resource';
 import { Unit, UnitType } from '../card-types/unit';
@@ -21,6 +23,10 @@ interface CardDataBase {
     targeter: TargeterData;
     mechanics: MechanicData[];
     cost: ResourcePrototype;
+    // The name of the cards rarity, cards without one are common
+    rarity?: string;
+    // Replaces the text generated from the cards mechanics
+    text?: string;
 }
 
 export const defaultDataObj: SpellData = {
@@ -73,30 +79,71 @@ const defaultCard = new Spell(
 export class CardList {
     private factories = new Map<string, CardFactory>();
     private instances: Card[] = [];
+    // The id of the set each card belongs to, by card id
+    private cardSets = new Map<string, string>();
+    private sets = new Map<string, SetInformation>([[coreSet.id, coreSet]]);
 
-    public loadCard(data: CardData) {
+    public loadCard(data: CardData, setId: string = coreSet.id) {
         const factory = this.buildCardFactory(data);
-        this.addFactory(factory);
+        this.addFactoryToSet(setId, factory);
+    }
+
+    /** Loads every card in a set, replacing existing cards with the same ids */
+    public loadSet(set: CardSet) {
+        this.sets.set(set.id, {
+            id: set.id,
+            name: set.name,
+            description: set.description,
+            public: set.public
+        });
+        for (const data of set.cards) {
+            this.loadCard(data, set.id);
+        }
     }
 
     public buildInstance(data: CardData) {
         return this.buildCardFactory(data)();
     }
 
+    /** Adds cards built in code, they are part of the core set */
     public addFactory(...factories: CardFactory[]) {
         for (const factory of factories) {
-            const card = factory();
-            this.factories.set(card.getDataId(), factory);
-            const existing = this.instances.findIndex(
-                curr => curr.getDataId() === card.getDataId()
-            );
-            if (existing !== -1) {
-                this.instances.splice(existing, 1);
-            }
-            this.instances.push(card);
+            this.addFactoryToSet(coreSet.id, factory);
         }
     }
 
+    private addFactoryToSet(setId: string, factory: CardFactory) {
+        const card = factory();
+        this.factories.set(card.getDataId(), factory);
+        this.cardSets.set(card.getDataId(), setId);
+        const existing = this.instances.findIndex(
+            curr => curr.getDataId() === card.getDataId()
+        );
+        if (existing !== -1) {
+            this.instances.splice(existing, 1);
+        }
+        this.instances.push(card);
+    }
+
+    /** Gets the id of the set a card belongs to, or undefined if the card does not exist */
+    public getSetId(cardId: string) {
+        return this.cardSets.get(cardId);
+    }
+
+    public getSet(setId: string) {
+        return this.sets.get(setId);
+    }
+
+    public getSets() {
+        return Array.from(this.sets.values());
+    }
+
+    public getCardsInSet(setId: string) {
+        return this.instances.filter(
+            card => this.cardSets.get(card.getDataId()) === setId
+        );
+    }
+
     public getCard(id: string): Card {
         const factory = this.factories.get(id);
         if (factory) {
@@ -121,7 +168,20 @@ export class CardList {
         return this.factories.get(id);
     }
 
-    public buildCardFactory(data: CardData) {
+    public buildCardFactory(data: CardData): CardFactory {
+        const factory = this.buildFactoryOfType(data);
+        const rarity = data.rarity === undefined ? commonRarity : data.rarity;
+        return () => {
+            const card = factory();
+            card.setRarity(rarity);
+            if (data.text) {
+                card.setText(data.text);
+            }
+            return card;
+        };
+    }
+
+    private buildFactoryOfType(data: CardData) {
         switch (data.cardType) {
             case CardType.Spell:
                 return this.buildSpellFactory(data as SpellData);
@@ -134,6 +194,14 @@ export class CardList {
         }
     }
 
+    private buildTargeter(data: TargeterData) {
+        return targeterList.buildInstance(
+            data,
+            this,
+            mechanicList.getConstructorMap()
+        );
+    }
+
     private buildSpellFactory(data: SpellData) {
         return () => {
             return new Spell(
@@ -141,7 +209,7 @@ export class CardList {
                 data.name,
                 data.imageUrl,
                 Resource.loadResource(data.cost),
-                targeterList.buildInstance(data.targeter),
+                this.buildTargeter(data.targeter),
                 data.mechanics.map(mechanic =>
                     mechanicList.buildInstance(mechanic, this)
                 )
@@ -157,7 +225,7 @@ export class CardList {
                 data.imageUrl,
                 data.type,
                 Resource.loadResource(data.cost),
-                targeterList.buildInstance(data.targeter),
+                this.buildTargeter(data.targeter),
                 data.damage,
                 data.life,
                 data.mechanics.map(mechanic =>
@@ -174,8 +242,8 @@ export class CardList {
                 data.name,
                 data.imageUrl,
                 Resource.loadResource(data.cost),
-                targeterList.buildInstance(data.targeter),
-                targeterList.buildInstance(data.hostTargeter),
+                this.buildTargeter(data.targeter),
+                this.buildTargeter(data.hostTargeter),
                 data.damage,
                 data.life,
                 data.mechanics.map(mechanic =>
@@ -192,7 +260,7 @@ export class CardList {
                 data.name,
                 data.imageUrl,
                 Resource.loadResource(data.cost),
-                targeterList.buildInstance(data.targeter),
+                this.buildTargeter(data.targeter),
                 data.empowerCost,
                 data.power,
                 data.mechanics.map(mechanic =>
@@ -205,7 +273,7 @@ export class CardList {
 
 export const cardList = new CardList();
 
-cardList.addFactory(...(values(renewal) as CardFactory[]));
-cardList.addFactory(...(values(growth) as CardFactory[]));
-cardList.addFactory(...(values(decay) as CardFactory[]));
-cardList.addFactory(...(values(synthesis) as CardFactory[]));
+cardList.addFactory(...(values(renewal) as CardFactory[]).map(withRarity));
+cardList.addFactory(...(values(growth) as CardFactory[]).map(withRarity));
+cardList.addFactory(...(values(decay) as CardFactory[]).map(withRarity));
+cardList.addFactory(...(values(synthesis) as CardFactory[]).map(withRarity));
@@ -0,0 +1,96 @@
+import { CardFactory } from './cardList';
+
+// The rarity of every built in card that isn't common, by card id
+const rarities = new Map<string, string>([
+    // Renewal
+    ['OverwhelmingRadiance', 'Legendary'],
+    ['SupremeAgeis', 'Legendary'],
+    ['King', 'Epic'],
+    ['AncientSage', 'Epic'],
+    ['Armstice', 'Epic'],
+    ['CallOfJustice', 'Epic'],
+    ['SentryAngel', 'Epic'],
+    ['WingsOfLight', 'Epic'],
+    ['Dawnbreak', 'Rare'],
+    ['Pegasus', 'Rare'],
+    ['General', 'Rare'],
+    ['Pontiff', 'Rare'],
+    ['Monastery', 'Rare'],
+    ['Imprison', 'Rare'],
+    ['ValiantDefenses', 'Rare'],
+    ['Gryphon', 'Rare'],
+
+    // Growth
+    ['ElderDragon', 'Legendary'],
+    ['EvolutionaryLeap', 'Legendary'],
+    ['Hydra', 'Epic'],
+    ['Kraken', 'Epic'],
+    ['FireElemental', 'Epic'],
+    ['SweetFragrance', 'Epic'],
+    ['SpiderQueen', 'Epic'],
+    ['NeuralResonance', 'Rare'],
+    ['BotanicElemental', 'Rare'],
+    ['DrainingTree', 'Rare'],
+    ['DeadlyPlague', 'Rare'],
+    ['Flourishing', 'Rare'],
+    ['Werewolf', 'Rare'],
+    ['Bite', 'Rare'],
+    ['mutation', 'Rare'],
+    ['AncientBeast', 'Rare'],
+    ['Fairy', 'Rare'],
+
+    // Decay
+    ['Reaper', 'Legendary'],
+    ['UnyieldingNightmare', 'Legendary'],
+    ['Spectre', 'Epic'],
+    ['Lich', 'Epic'],
+    ['CruelTyrant', 'Epic'],
+    ['AbyssalShield', 'Epic'],
+    ['Ruination', 'Epic'],
+    ['Gorgon', 'Epic'],
+    ['Eruption', 'Epic'],
+    ['DeathAscendancy', 'Rare'],
+    ['Necromancers Staff', 'Rare'],
+    ['NecromancerTome', 'Rare'],
+    ['RaidingShip', 'Rare'],
+    ['VampireBite', 'Rare'],
+    ['Decapitate', 'Rare'],
+    ['RaiseSkeletons', 'Rare'],
+    ['Abomination', 'Rare'],
+    ['PriceOfDecay', 'Rare'],
+    ['Hemorrhage', 'Rare'],
+    ['Dragon', 'Rare'],
+
+    // Synthesis
+    ['AtomicStrike', 'Legendary'],
+    ['Paragon', 'Legendary'],
+    ['TitanMk2', 'Epic'],
+    ['ShieldGenerator', 'Epic'],
+    ['ResearchAI', 'Epic'],
+    ['ForceField', 'Epic'],
+    ['EnhancmentChamber', 'Epic'],
+    ['RiftBlast', 'Epic'],
+    ['ComsTower', 'Rare'],
+    ['Submarine', 'Rare'],
+    ['AssemblyLine', 'Rare'],
+    ['Interceptor', 'Rare'],
+    ['SpySatalite', 'Rare'],
+    ['OccularImplant', 'Rare'],
+    ['Rifle', 'Rare'],
+    ['AlloyTransmute', 'Rare'],
+    ['BombingRun', 'Rare'],
+    ['GoldMine', 'Rare']
+]);
+
+/** Gives the cards made by the factory of a built in card that card's rarity */
+export function withRarity(factory: CardFactory): CardFactory {
+    const rarity = rarities.get(factory().getDataId());
+    if (rarity === undefined) {
+        return factory;
+    }
+    return () => {
+        const card = factory();
+        card.setRarity(rarity);
+        return card;
+    };
+}
@@ -0,0 +1,143 @@
+import { CardType } from '../card-types/card';
+import { UnitType } from '../card-types/unit';
+import { CardSet, coreSet } from '../cardSet';
+import { Mechanic } from '../mechanic';
+import { exportCardSet, loadCardSet } from './cardSetLoader';
+import { CardList, cardList, SpellData, UnitData } from './cardList';
+import { hydra, kraken } from './growthCards';
+import { Deathless } from './mechanics/skills';
+import { pikeman } from './renewalCards';
+
+const tokenData = (): UnitData => ({
+    id: 'TestToken',
+    cardType: CardType.Unit,
+    name: 'Test Token',
+    imageUrl: '',
+    cost: { energy: 1 },
+    targeter: { id: 'Untargeted', optional: false },
+    mechanics: [],
+    type: UnitType.Human,
+    damage: 1,
+    life: 1
+});
+
+const summonData = (): SpellData => ({
+    id: 'TestSummon',
+    cardType: CardType.Spell,
+    name: 'Test Summon',
+    imageUrl: '',
+    cost: { energy: 1 },
+    targeter: { id: 'Untargeted', optional: false },
+    mechanics: [{ id: 'SummonUnits', parameters: ['TestToken', 1] }]
+});
+
+const testSet = (...cards: (UnitData | SpellData)[]): CardSet => ({
+    id: 'test',
+    name: 'Test Set',
+    description: '',
+    public: true,
+    cards: cards
+});
+
+describe('exportCardSet', () => {
+    it('should keep the parameters of mechanics and targeters', () => {
+        const { set, skipped } = exportCardSet(coreSet, [hydra(), kraken()]);
+
+        expect(skipped).toEqual([]);
+        const loaded = set.cards.map(data => cardList.buildInstance(data));
+        expect(loaded.map(card => card.getText())).toEqual([
+            hydra().getText(),
+            kraken().getText()
+        ]);
+    });
+
+    it('should keep the rarity of cards', () => {
+        const { set } = exportCardSet(coreSet, [cardList.getCard('Hydra')]);
+
+        expect(set.cards[0].rarity).toBe('Epic');
+        expect(cardList.buildInstance(set.cards[0]).getRarity()).toBe('Epic');
+    });
+
+    it('should skip cards with parameters it can not read back', () => {
+        const card = hydra();
+        const deathless = card
+            .getMechanics()
+            .find(mechanic => mechanic.getId() === 'Deathless');
+        spyOn(deathless as Mechanic, 'getParameterValues').and.returnValue([]);
+
+        const { set, skipped } = exportCardSet(coreSet, [card]);
+
+        expect(set.cards).toEqual([]);
+        expect(skipped).toEqual([
+            "Hydra: the parameters of Deathless can't be read back"
+        ]);
+    });
+});
+
+describe('loadCardSet', () => {
+    it('should let cards refer to cards that come after them in the set', () => {
+        const list = new CardList();
+
+        loadCardSet(testSet(summonData(), tokenData()), list);
+
+        expect(list.getCard('TestSummon').getText()).toBe(
+            'Summon a Test Token.'
+        );
+    });
+
+    it('should warn when a card replaces a card from another set', () => {
+        const list = new CardList();
+        list.addFactory(pikeman);
+        const replacement = tokenData();
+        replacement.id = pikeman().getDataId();
+        spyOn(console, 'warn');
+
+        loadCardSet(testSet(replacement), list);
+
+        expect(console.warn).toHaveBeenCalledTimes(1);
+        expect(list.getSetId(replacement.id)).toBe('test');
+    });
+});
+
+describe('exportCardSet with references', () => {
+    let list: CardList;
+
+    beforeEach(() => {
+        list = new CardList();
+        loadCardSet(testSet(summonData(), tokenData()), list);
+    });
+
+    it('should export the cards an exported card refers to', () => {
+        const { set, skipped } = exportCardSet(
+            testSet(),
+            [list.getCard('TestSummon')],
+            list
+        );
+
+        expect(skipped).toEqual([]);
+        expect(set.cards.map(data => data.id)).toEqual([
+            'TestSummon',
+            'TestToken'
+        ]);
+    });
+
+    it('should skip cards that refer to a skipped card', () => {
+        const token = list.getCard('TestToken');
+        const deathless = new Deathless(2);
+        spyOn(deathless, 'getParameterValues').and.returnValue([]);
+        spyOn(token, 'getMechanics').and.returnValue([deathless]);
+
+        const { set, skipped } = exportCardSet(
+            testSet(),
+            [token, list.getCard('TestSummon')],
+            list
+        );
+
+        expect(set.cards).toEqual([]);
+        expect(skipped).toEqual([
+            "TestToken: the parameters of Deathless can't be read back",
+            'TestSummon: it refers to TestToken, which was skipped'
+        ]);
+    });
+});
+
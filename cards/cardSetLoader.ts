@@ -0,0 +1,243 @@
+import { Card } from '../card-types/card';
+import { Item } from '../card-types/item';
+import { Spell } from '../card-types/spell';
+import { CardSet, coreSet, SetInformation } from '../cardSet';
+import { Mechanic, TargetedMechanic, TriggeredMechanic } from '../mechanic';
+import { Targeter } from '../targeter';
+import { CardData, CardList, cardList } from './cardList';
+import {
+    CardDiagnostic,
+    CardValidator,
+    DiagnosticSeverity,
+    formatDiagnostic
+} from './cardValidator';
+import { mechanicList } from './mechanicList';
+import { targeterList } from './targeterList';
+import { isCardParameter } from './parameters';
+import { triggerList } from './triggerList';
+
+export interface CardSetExport {
+    set: CardSet;
+    // Cards that could not be converted to data, with the reason why
+    skipped: string[];
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const setError = (path: string, message: string): CardDiagnostic => ({
+    path: path,
+    message: message,
+    severity: DiagnosticSeverity.Error
+});
+
+/**
+ * Checks that some parsed JSON describes a valid card set.
+ *
+ * Returns the errors and warnings of the set and of every card in it, each with the path
+ * of the value at fault. Cards may refer to other cards in the same set.
+ */
+export function validateCardSet(
+    data: unknown,
+    cards: CardList = cardList
+): CardDiagnostic[] {
+    if (!isObject(data)) {
+        return [setError('', 'must be a set object')];
+    }
+    const diagnostics: CardDiagnostic[] = [];
+    for (const key of ['id', 'name', 'description']) {
+        if (typeof data[key] !== 'string') {
+            diagnostics.push(setError(key, 'must be a string'));
+        }
+    }
+    if (typeof data.public !== 'boolean') {
+        diagnostics.push(setError('public', 'must be true or false'));
+    }
+    if (!Array.isArray(data.cards)) {
+        diagnostics.push(setError('cards', 'must be a list'));
+        return diagnostics;
+    }
+    const validator = new CardValidator(cards, data.cards);
+    const ids = new Set<unknown>();
+    data.cards.forEach((card: unknown, i: number) => {
+        diagnostics.push(...validator.validate(card, `cards[${i}]`));
+        if (!isObject(card)) {
+            return;
+        }
+        if (ids.has(card.id)) {
+            diagnostics.push(
+                setError(`cards[${i}].id`, `${card.id} appears more than once`)
+            );
+        }
+        ids.add(card.id);
+    });
+    return diagnostics;
+}
+
+/**
+ * Validates a card set and adds all of its cards to a card list.
+ *
+ * Throws an error listing every error in the set if it is not valid, warnings are logged.
+ */
+export function loadCardSet(set: CardSet, cards: CardList = cardList) {
+    const diagnostics = validateCardSet(set, cards);
+    const errors = diagnostics.filter(
+        diagnostic => diagnostic.severity === DiagnosticSeverity.Error
+    );
+    if (errors.length > 0) {
+        throw new Error(
+            `Invalid card set ${set.id}: ${errors
+                .map(formatDiagnostic)
+                .join('; ')}`
+        );
+    }
+    diagnostics.forEach(warning =>
+        console.warn(`Card set ${set.id}`, formatDiagnostic(warning))
+    );
+    for (const card of set.cards) {
+        const existingSet = cards.getSetId(card.id);
+        if (existingSet !== undefined && existingSet !== set.id) {
+            console.warn(
+                `Card set ${set.id}`,
+                `${card.id} replaces the card with the same id in set ${existingSet}`
+            );
+        }
+    }
+    cards.loadSet(set);
+}
+
+/** Parses, validates and loads a card set from a JSON string */
+export function loadCardSetFromJson(json: string, cards: CardList = cardList) {
+    const set = JSON.parse(json) as CardSet;
+    loadCardSet(set, cards);
+    return set;
+}
+
+/** Checks that a mechanic or targeter reports a value for every parameter it declares */
+function hasAllParameters(part: Mechanic | Targeter) {
+    const constructor = part.constructor as typeof Mechanic | typeof Targeter;
+    const types = constructor.getParameterTypes();
+    return part.getParameterValues().length === types.length;
+}
+
+/** Finds the reason a card can't be converted to data, or null if it can be */
+export function findExportProblem(card: Card) {
+    if (!(card instanceof Spell)) {
+        return 'it is not built from a card class';
+    }
+    const targeters = [card.getTargeter()];
+    if (card instanceof Item) {
+        targeters.push(card.getHostTargeter());
+    }
+    for (const mechanic of card.getMechanics()) {
+        const id = mechanic.getId();
+        if (!mechanicList.isRegistered(mechanic)) {
+            return `mechanic ${id} is not registered`;
+        }
+        if (!hasAllParameters(mechanic)) {
+            return `the parameters of ${id} can't be read back`;
+        }
+        if (
+            mechanic instanceof TriggeredMechanic &&
+            !triggerList.isRegistered(mechanic.getTrigger())
+        ) {
+            return `trigger ${mechanic.getTrigger().getId()} is not registered`;
+        }
+        if (mechanic instanceof TargetedMechanic) {
+            targeters.push(mechanic.getTargeter());
+        }
+    }
+    for (const targeter of targeters) {
+        if (!targeterList.isRegistered(targeter)) {
+            return `targeter ${targeter.getId()} is not registered`;
+        }
+        if (!hasAllParameters(targeter)) {
+            return `the parameters of ${targeter.getId()} can't be read back`;
+        }
+    }
+    return null;
+}
+
+/** Gets the ids of the cards that the mechanics and targeters of a card refer to */
+function getReferencedCardIds(card: Spell) {
+    const parts: (Mechanic | Targeter)[] = [
+        ...card.getMechanics(),
+        ...card.getTargeters()
+    ];
+    const ids: string[] = [];
+    for (const part of parts) {
+        const constructor = part.constructor as
+            | typeof Mechanic
+            | typeof Targeter;
+        const values = part.getParameterValues();
+        constructor.getParameterTypes().forEach((parameter, i) => {
+            if (isCardParameter(parameter.type)) {
+                ids.push(values[i] as string);
+            }
+        });
+    }
+    return ids;
+}
+
+/**
+ * Converts cards into a card set document that loadCardSet can read.
+ * By default it exports the cards built into the game.
+ *
+ * Cards outside of the core set that an exported card refers to are exported with it.
+ * Cards that refer to a card that can't be exported are skipped, as they could not be loaded.
+ */
+export function exportCardSet(
+    info: SetInformation = coreSet,
+    cards: Card[] = cardList.getCardsInSet(info.id),
+    list: CardList = cardList
+): CardSetExport {
+    const skipped = new Map<string, string>();
+    const exported = new Map<string, Spell>();
+    const references = new Map<string, string[]>();
+    const toExport = [...cards];
+    while (toExport.length > 0) {
+        const card = toExport.shift() as Card;
+        const id = card.getDataId();
+        if (exported.has(id) || skipped.has(id)) {
+            continue;
+        }
+        const problem = findExportProblem(card);
+        if (problem) {
+            skipped.set(id, problem);
+            continue;
+        }
+        exported.set(id, card as Spell);
+        const dependencies = getReferencedCardIds(card as Spell).filter(
+            ref => info.id === coreSet.id || list.getSetId(ref) !== coreSet.id
+        );
+        references.set(id, dependencies);
+        for (const ref of dependencies) {
+            if (list.exists(ref)) {
+                toExport.push(list.getCard(ref));
+            } else if (!exported.has(ref)) {
+                skipped.set(ref, 'it is not in the card list');
+            }
+        }
+    }
+
+    // Skipping a card also skips every card that refers to it
+    let skippedDependent = true;
+    while (skippedDependent) {
+        skippedDependent = false;
+        for (const [id, dependencies] of Array.from(references)) {
+            const missing = dependencies.find(ref => skipped.has(ref));
+            if (exported.has(id) && missing !== undefined) {
+                exported.delete(id);
+                skipped.set(id, `it refers to ${missing}, which was skipped`);
+                skippedDependent = true;
+            }
+        }
+    }
+    return {
+        set: {
+            ...info,
+            cards: Array.from(exported.values()).map(card => card.toCardData())
+        },
+        skipped: Array.from(skipped).map(([id, reason]) => `${id}: ${reason}`)
+    };
+}
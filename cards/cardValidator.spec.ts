@@ -0,0 +1,102 @@
+import { Card, CardType } from '../card-types/card';
+import { exportCardSet, loadCardSet } from './cardSetLoader';
+import { CardData, CardList, cardList, SpellData } from './cardList';
+import {
+    CardDiagnostic,
+    DiagnosticSeverity,
+    validateCardData
+} from './cardValidator';
+import { whip } from './decayCards';
+import { buildParameters, ParameterType } from './parameters';
+import { pikeman } from './renewalCards';
+
+const damageSpell = (): SpellData => ({
+    id: 'TestSpell',
+    cardType: CardType.Spell,
+    name: 'Test Spell',
+    imageUrl: '',
+    cost: { energy: 1 },
+    targeter: { id: 'SingleUnit', optional: false },
+    mechanics: [{ id: 'DealDamage', parameters: [1] }]
+});
+
+const describeDiagnostics = (diagnostics: CardDiagnostic[]) =>
+    diagnostics.map(diagnostic => ({
+        path: diagnostic.path,
+        severity: diagnostic.severity
+    }));
+
+describe('CardValidator', () => {
+    it('should accept every card built into the game', () => {
+        const { set, skipped } = exportCardSet();
+
+        expect(skipped).toEqual([]);
+        for (const data of set.cards) {
+            expect(validateCardData(data)).toEqual([]);
+        }
+        expect(() => loadCardSet(set, new CardList())).not.toThrow();
+    });
+
+    it('should reject triggers that never fire on the type of card', () => {
+        const data = damageSpell();
+        data.mechanics[0].trigger = { id: 'Dusk' };
+
+        expect(describeDiagnostics(validateCardData(data))).toEqual([
+            {
+                path: 'mechanics[0].trigger.id',
+                severity: DiagnosticSeverity.Error
+            }
+        ]);
+    });
+
+    it('should warn about mechanics whose targeter finds nothing they affect', () => {
+        const data = damageSpell();
+        data.targeter = { id: 'AllEnchantments', optional: false };
+
+        expect(describeDiagnostics(validateCardData(data))).toEqual([
+            { path: 'mechanics[0].id', severity: DiagnosticSeverity.Warning }
+        ]);
+    });
+
+    it('should reject items that can not attach to a unit', () => {
+        const data = whip().toCardData() as CardData;
+        if (data.cardType === CardType.Item) {
+            data.hostTargeter = { id: 'AllEnchantments', optional: false };
+        }
+
+        expect(describeDiagnostics(validateCardData(data))).toEqual([
+            {
+                path: 'hostTargeter.id',
+                severity: DiagnosticSeverity.Error
+            }
+        ]);
+    });
+
+    it('should reject rarities that are not names', () => {
+        const data = damageSpell();
+        (data as { rarity?: unknown }).rarity = 3;
+
+        expect(describeDiagnostics(validateCardData(data))).toEqual([
+            { path: 'rarity', severity: DiagnosticSeverity.Error }
+        ]);
+    });
+
+    it('should reject input that is not a card object', () => {
+        expect(describeDiagnostics(validateCardData('Pikeman'))).toEqual([
+            { path: '', severity: DiagnosticSeverity.Error }
+        ]);
+    });
+});
+
+describe('buildParameters', () => {
+    it('should load card parameters of any type as the card they refer to', () => {
+        const [factory]: (() => Card)[] = buildParameters(
+            [ParameterType.Card],
+            [pikeman().getDataId()],
+            cardList,
+            new Map()
+        );
+
+        expect(factory().getDataId()).toBe(pikeman().getDataId());
+    });
+});
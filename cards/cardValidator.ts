@@ -0,0 +1,591 @@
+import { CardType } from '../card-types/card';
+import { UnitType } from '../card-types/unit';
+import {
+    EnchantmentTargetedMechanic,
+    TargetedMechanic,
+    TriggeredMechanic,
+    UnitTargetedMechanic
+} from '../mechanic';
+import { ResourceTypeNames } from '../resource';
+import { CardData, CardList, cardList } from './cardList';
+import { mechanicList } from './mechanicList';
+import { ParameterType } from './parameters';
+import { targeterList } from './targeterList';
+import { triggerList } from './triggerList';
+
+export enum DiagnosticSeverity {
+    Error, // The card would not load or behave as written
+    Warning // The card loads, but part of it has no effect
+}
+
+/** A problem found with a piece of card data */
+export interface CardDiagnostic {
+    // The location of the value at fault, such as mechanics[0].parameters[1]
+    path: string;
+    message: string;
+    severity: DiagnosticSeverity;
+}
+
+const resourceKeys = [
+    'energy',
+    'maxEnergy',
+    'synthesis',
+    'growth',
+    'renewal',
+    'decay'
+];
+
+const cardParameterTypes = new Map<ParameterType, CardType | undefined>([
+    [ParameterType.Card, undefined],
+    [ParameterType.Spell, CardType.Spell],
+    [ParameterType.Unit, CardType.Unit],
+    [ParameterType.Item, CardType.Item],
+    [ParameterType.Enchantment, CardType.Enchantment]
+]);
+
+type DataObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is DataObject =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isCardType = (value: unknown): value is CardType =>
+    typeof value === 'number' && CardType[value] !== undefined;
+
+const isIntegerInRange = (value: unknown, min: number, max: number) =>
+    typeof value === 'number' &&
+    Number.isInteger(value) &&
+    value >= min &&
+    value <= max;
+
+const joinPath = (path: string, key: string) =>
+    path ? `${path}${key.startsWith('[') ? '' : '.'}${key}` : key;
+
+/**
+ * Checks card data far more strictly than the card list does when it loads it.
+ *
+ * Where loading would quietly substitute a default (a missing targeter, an unknown card,
+ * an out of range number) the validator reports an error instead. Parts of a card that
+ * load but do nothing are reported as warnings.
+ */
+export class CardValidator {
+    private diagnostics: CardDiagnostic[] = [];
+    private localCards = new Map<string, CardType>();
+
+    /**
+     * @param cards - The card list that cards referred to by parameters are looked up in
+     * @param siblings - Other cards loaded alongside the validated card (such as the rest of its set)
+     */
+    constructor(
+        private cards: CardList = cardList,
+        siblings: CardData[] = []
+    ) {
+        for (const sibling of siblings as unknown[]) {
+            if (
+                isObject(sibling) &&
+                typeof sibling.id === 'string' &&
+                isCardType(sibling.cardType)
+            ) {
+                this.localCards.set(sibling.id, sibling.cardType);
+            }
+        }
+    }
+
+    /**
+     * Validates a card.
+     *
+     * @param data - The card to validate, usually parsed from JSON
+     * @param path - A prefix for the paths of diagnostics, such as cards[3]
+     */
+    public validate(data: unknown, path: string = ''): CardDiagnostic[] {
+        this.diagnostics = [];
+        this.validateCard(data, path);
+        return this.diagnostics;
+    }
+
+    private error(path: string, message: string) {
+        this.diagnostics.push({
+            path: path,
+            message: message,
+            severity: DiagnosticSeverity.Error
+        });
+    }
+
+    private warn(path: string, message: string) {
+        this.diagnostics.push({
+            path: path,
+            message: message,
+            severity: DiagnosticSeverity.Warning
+        });
+    }
+
+    private getCardType(id: string) {
+        if (this.localCards.has(id)) {
+            return this.localCards.get(id);
+        }
+        return this.cards.exists(id)
+            ? this.cards.getCard(id).getCardType()
+            : undefined;
+    }
+
+    // Cards ------------------------------------------------------------
+    private validateCard(data: unknown, path: string) {
+        if (!isObject(data)) {
+            this.error(path, 'must be a card object');
+            return;
+        }
+        for (const key of ['id', 'name', 'imageUrl']) {
+            if (typeof data[key] !== 'string') {
+                this.error(joinPath(path, key), 'must be a string');
+            }
+        }
+        if (typeof data.id === 'string' && data.id.length === 0) {
+            this.error(joinPath(path, 'id'), 'must not be empty');
+        }
+        this.validateResource(data.cost, joinPath(path, 'cost'));
+        this.validateTargeter(data.targeter, joinPath(path, 'targeter'));
+        if (
+            data.rarity !== undefined &&
+            (typeof data.rarity !== 'string' || data.rarity.length === 0)
+        ) {
+            this.error(joinPath(path, 'rarity'), 'must be the name of a rarity');
+        }
+
+        if (!Array.isArray(data.mechanics)) {
+            this.error(joinPath(path, 'mechanics'), 'must be a list');
+        } else {
+            data.mechanics.forEach((mechanic: unknown, i: number) =>
+                this.validateMechanic(
+                    mechanic,
+                    data,
+                    joinPath(path, `mechanics[${i}]`)
+                )
+            );
+            this.checkTargetsAreUsed(data, data.mechanics, path);
+        }
+
+        switch (data.cardType) {
+            case CardType.Spell:
+                break;
+            case CardType.Unit:
+                this.validateStat(data, path, 'damage');
+                this.validateStat(data, path, 'life');
+                if (data.life === 0) {
+                    this.warn(
+                        joinPath(path, 'life'),
+                        'the unit will die as soon as it is played'
+                    );
+                }
+                if (
+                    typeof data.type !== 'number' ||
+                    UnitType[data.type] === undefined
+                ) {
+                    this.error(joinPath(path, 'type'), 'must be a UnitType');
+                } else if (data.type === UnitType.Player) {
+                    this.warn(
+                        joinPath(path, 'type'),
+                        'only players may have the Player type'
+                    );
+                }
+                break;
+            case CardType.Item:
+                this.validateStat(data, path, 'damage');
+                this.validateStat(data, path, 'life');
+                this.validateTargeter(
+                    data.hostTargeter,
+                    joinPath(path, 'hostTargeter')
+                );
+                this.checkHostTargeter(data.hostTargeter, path);
+                break;
+            case CardType.Enchantment:
+                this.validateStat(data, path, 'power');
+                this.validateStat(data, path, 'empowerCost');
+                break;
+            default:
+                this.error(joinPath(path, 'cardType'), 'must be a CardType');
+        }
+    }
+
+    private validateStat(data: DataObject, path: string, key: string) {
+        if (!isIntegerInRange(data[key], 0, Infinity)) {
+            this.error(
+                joinPath(path, key),
+                'must be a non-negative whole number'
+            );
+        }
+    }
+
+    private validateResource(data: unknown, path: string) {
+        if (!isObject(data)) {
+            this.error(path, 'must be a resource object');
+            return;
+        }
+        if (data.energy === undefined) {
+            this.error(joinPath(path, 'energy'), 'is required');
+        }
+        for (const key of Object.keys(data)) {
+            if (!resourceKeys.includes(key)) {
+                this.warn(joinPath(path, key), 'is not a resource type');
+            } else if (!isIntegerInRange(data[key], 0, Infinity)) {
+                this.error(
+                    joinPath(path, key),
+                    'must be a non-negative whole number'
+                );
+            }
+        }
+    }
+
+    /**
+     * Warns about cards that ask for targets none of their mechanics use.
+     * Targeted mechanics without a targeter of their own use their cards.
+     */
+    private checkTargetsAreUsed(
+        data: DataObject,
+        mechanics: unknown[],
+        path: string
+    ) {
+        const targeter = data.targeter;
+        if (
+            !isObject(targeter) ||
+            typeof targeter.id !== 'string' ||
+            !targeterList.exists(targeter.id) ||
+            targeterList.getIds(true).includes(targeter.id)
+        ) {
+            return;
+        }
+        const usesCardTargets = mechanics.some(mechanic => {
+            if (!isObject(mechanic) || typeof mechanic.id !== 'string') {
+                return false;
+            }
+            const constructor = mechanicList.getConstructor(mechanic.id);
+            return (
+                constructor !== undefined &&
+                constructor.prototype instanceof TargetedMechanic &&
+                (!isObject(mechanic.targeter) ||
+                    mechanic.targeter.id === 'Host')
+            );
+        });
+        if (!usesCardTargets) {
+            this.warn(
+                joinPath(path, 'targeter'),
+                `${targeter.id} asks for targets but no mechanic uses them`
+            );
+        }
+    }
+
+    /** Items attach to the first unit their host targeter finds */
+    private checkHostTargeter(data: unknown, path: string) {
+        const constructor = this.getTargeterConstructor(data);
+        if (constructor && !constructor.canTarget(CardType.Unit)) {
+            this.error(
+                joinPath(path, 'hostTargeter.id'),
+                `${constructor.getId()} can't target units, so the item has nothing to attach to`
+            );
+        }
+    }
+
+    /**
+     * Warns about targeted mechanics whose targeter never finds the kind of card they affect.
+     * Mechanics without a targeter of their own use their cards targeter.
+     */
+    private checkTargetsAreCompatible(
+        data: DataObject,
+        card: DataObject,
+        path: string
+    ) {
+        const ownTargeter =
+            isObject(data.targeter) && data.targeter.id !== 'Host';
+        const constructor = this.getTargeterConstructor(
+            ownTargeter ? data.targeter : card.targeter
+        );
+        if (!constructor) {
+            return;
+        }
+        const mechanic = mechanicList.getConstructor(data.id as string);
+        const affected =
+            mechanic && mechanic.prototype instanceof UnitTargetedMechanic
+                ? CardType.Unit
+                : mechanic &&
+                  mechanic.prototype instanceof EnchantmentTargetedMechanic
+                ? CardType.Enchantment
+                : undefined;
+        if (affected !== undefined && !constructor.canTarget(affected)) {
+            this.warn(
+                joinPath(path, ownTargeter ? 'targeter.id' : 'id'),
+                `${constructor.getId()} never targets ${CardType[
+                    affected
+                ].toLowerCase()}s, so ${data.id} has no effect`
+            );
+        }
+    }
+
+    private getTargeterConstructor(data: unknown) {
+        return isObject(data) && typeof data.id === 'string'
+            ? targeterList.getConstructor(data.id)
+            : undefined;
+    }
+
+    // Targeters and Triggers ------------------------------------------
+    private validateTargeter(data: unknown, path: string) {
+        if (!isObject(data)) {
+            this.error(path, 'must be a targeter object');
+            return;
+        }
+        if (typeof data.optional !== 'boolean') {
+            this.error(joinPath(path, 'optional'), 'must be true or false');
+        }
+        const constructor = this.getTargeterConstructor(data);
+        if (!constructor) {
+            this.error(
+                joinPath(path, 'id'),
+                `no targeter with id ${data.id} (it would be replaced by Untargeted)`
+            );
+            return;
+        }
+        const parameterTypes = constructor.getParameterTypes();
+        if (data.parameters === undefined && parameterTypes.length === 0) {
+            return;
+        }
+        this.validateParameters(
+            constructor.getId(),
+            data.parameters,
+            parameterTypes,
+            path
+        );
+    }
+
+    private validateTrigger(data: unknown, cardType: unknown, path: string) {
+        if (!isObject(data)) {
+            this.error(path, 'must be a trigger object');
+            return;
+        }
+        const constructor =
+            typeof data.id === 'string'
+                ? triggerList.getConstructor(data.id)
+                : undefined;
+        if (!constructor) {
+            this.error(joinPath(path, 'id'), `no trigger with id ${data.id}`);
+        } else if (
+            isCardType(cardType) &&
+            !constructor.isValidParent(cardType)
+        ) {
+            this.error(
+                joinPath(path, 'id'),
+                `${data.id} can't trigger on ${CardType[cardType]} cards`
+            );
+        }
+    }
+
+    // Mechanics --------------------------------------------------------
+    private validateMechanic(data: unknown, card: DataObject, path: string) {
+        if (!isObject(data)) {
+            this.error(path, 'must be a mechanic object');
+            return;
+        }
+        const cardType = card.cardType;
+        const constructor =
+            typeof data.id === 'string'
+                ? mechanicList.getConstructor(data.id)
+                : undefined;
+        if (!constructor) {
+            this.error(joinPath(path, 'id'), `no mechanic with id ${data.id}`);
+            return;
+        }
+        if (isCardType(cardType) && !constructor.isValidParent(cardType)) {
+            this.error(
+                joinPath(path, 'id'),
+                `${data.id} can't be put on ${CardType[cardType]} cards`
+            );
+        }
+
+        if (data.trigger !== undefined) {
+            if (constructor.prototype instanceof TriggeredMechanic) {
+                this.validateTrigger(
+                    data.trigger,
+                    cardType,
+                    joinPath(path, 'trigger')
+                );
+            } else {
+                this.warn(
+                    joinPath(path, 'trigger'),
+                    `${data.id} is not triggered so its trigger is ignored`
+                );
+            }
+        }
+        if (data.targeter !== undefined) {
+            const usesHostTargeter =
+                isObject(data.targeter) && data.targeter.id === 'Host';
+            if (!(constructor.prototype instanceof TargetedMechanic)) {
+                this.warn(
+                    joinPath(path, 'targeter'),
+                    `${data.id} does not target so its targeter is ignored`
+                );
+            } else if (!usesHostTargeter) {
+                this.validateTargeter(
+                    data.targeter,
+                    joinPath(path, 'targeter')
+                );
+            }
+        }
+        if (constructor.prototype instanceof TargetedMechanic) {
+            this.checkTargetsAreCompatible(data, card, path);
+        }
+
+        this.validateParameters(
+            constructor.getId(),
+            data.parameters,
+            constructor.getParameterTypes(),
+            path
+        );
+    }
+
+    // Parameters -------------------------------------------------------
+    private validateParameters(
+        ownerId: string,
+        parameters: unknown,
+        parameterTypes: { name: string; type: ParameterType }[],
+        path: string
+    ) {
+        if (!Array.isArray(parameters)) {
+            this.error(joinPath(path, 'parameters'), 'must be a list');
+            return;
+        }
+        parameterTypes.forEach((parameter, i) =>
+            this.validateParameter(
+                parameters[i],
+                parameter.type,
+                joinPath(path, `parameters[${i}]`),
+                parameter.name
+            )
+        );
+        for (let i = parameterTypes.length; i < parameters.length; i++) {
+            this.warn(
+                joinPath(path, `parameters[${i}]`),
+                `${ownerId} only takes ${parameterTypes.length} parameters, this one is ignored`
+            );
+        }
+    }
+
+    private validateParameter(
+        value: unknown,
+        type: ParameterType,
+        path: string,
+        name: string
+    ) {
+        if (value === undefined) {
+            this.error(path, `${name} is missing`);
+            return;
+        }
+        switch (type) {
+            case ParameterType.Integer:
+                this.validateInteger(value, path, name, -99, 99);
+                return;
+            case ParameterType.NaturalNumber:
+                this.validateInteger(value, path, name, 1, 99);
+                return;
+            case ParameterType.CardType:
+                this.validateInteger(value, path, name, 0, 3);
+                return;
+            case ParameterType.UnitType:
+                if (
+                    typeof value !== 'number' ||
+                    UnitType[value] === undefined
+                ) {
+                    this.error(path, `${name} must be a UnitType`);
+                }
+                return;
+            case ParameterType.Resource:
+                this.validateResource(value, path);
+                return;
+            case ParameterType.ResourceType:
+                if (
+                    typeof value !== 'string' ||
+                    !ResourceTypeNames.includes(value)
+                ) {
+                    this.error(
+                        path,
+                        `${name} must be one of ${ResourceTypeNames.join(
+                            ', '
+                        )}`
+                    );
+                }
+                return;
+            case ParameterType.Ability:
+                this.validateAbility(value, path, name);
+                return;
+        }
+        if (cardParameterTypes.has(type)) {
+            this.validateCardParameter(
+                value,
+                path,
+                name,
+                cardParameterTypes.get(type)
+            );
+        }
+    }
+
+    private validateInteger(
+        value: unknown,
+        path: string,
+        name: string,
+        min: number,
+        max: number
+    ) {
+        if (typeof value === 'string' && !isNaN(parseInt(value, 10))) {
+            this.warn(path, `${name} should be a number rather than a string`);
+            value = parseInt(value, 10);
+        }
+        if (!isIntegerInRange(value, min, max)) {
+            this.error(
+                path,
+                `${name} must be a whole number from ${min} to ${max}`
+            );
+        }
+    }
+
+    private validateCardParameter(
+        value: unknown,
+        path: string,
+        name: string,
+        expectedType?: CardType
+    ) {
+        if (typeof value !== 'string') {
+            this.error(path, `${name} must be the id of a card`);
+            return;
+        }
+        const actualType = this.getCardType(value);
+        if (actualType === undefined) {
+            this.error(path, `${name} refers to ${value}, which does not exist`);
+        } else if (expectedType !== undefined && actualType !== expectedType) {
+            this.error(
+                path,
+                `${name} must be a ${CardType[expectedType]} but ${value} is a ${CardType[actualType]}`
+            );
+        }
+    }
+
+    private validateAbility(value: unknown, path: string, name: string) {
+        const constructor =
+            typeof value === 'string'
+                ? mechanicList.getConstructor(value)
+                : undefined;
+        if (!constructor) {
+            this.error(path, `${name} must be the id of a mechanic`);
+        } else if (!constructor.grantable) {
+            this.warn(path, `${value} is not normally granted as an ability`);
+        }
+    }
+}
+
+/** Validates a single card, returning its errors and warnings */
+export function validateCardData(
+    data: unknown,
+    cards: CardList = cardList
+): CardDiagnostic[] {
+    return new CardValidator(cards).validate(data);
+}
+
+export function formatDiagnostic(diagnostic: CardDiagnostic) {
+    const severity =
+        diagnostic.severity === DiagnosticSeverity.Error ? 'error' : 'warning';
+    return `${diagnostic.path || 'root'} (${severity}): ${diagnostic.message}`;
+}
@@ -695,7 +695,7 @@ export function princeOfDecay() {
     );
 }
 
-function statue() {
+export function statue() {
     return new Unit(
         'Statue',
         'Statue',
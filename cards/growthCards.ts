@@ -340,7 +340,7 @@ export function greatWhale() {
             Renewal: 0,
             Synthesis: 0
         }),
-        new UnitWithAbility('aquatic', 'Aquatic').setOptional(true),
+        new Untargeted(),
         2,
         5,
         [new Aquatic(), new GainLife(2)]
@@ -359,7 +359,7 @@ export function kraken() {
             Renewal: 0,
             Synthesis: 0
         }),
-        new UnitWithAbility(Aquatic.getId(), 'Aquatic').setOptional(true),
+        new UnitWithAbility(Aquatic).setOptional(true),
         5,
         5,
         [new Aquatic(), new KillTarget()]
@@ -4,6 +4,7 @@ import { Mechanic } from '../mechanic';
 
 export interface MechanicConstructor {
     grantable?: true;
+    name: string;
     getId(): string;
     isValidParent(CardType: CardType): boolean;
     getParameterTypes(): { name: string; type: ParameterType }[];
@@ -11,8 +11,10 @@ import * as dealDamage from './mechanics/dealDamage';
 import * as decaySpecials from './mechanics/decaySpecials';
 import * as draw from './mechanics/draw';
 import * as enchantmentCounters from './mechanics/enchantmentCounters';
+import * as enchantmentTargeting from './mechanics/enchantmentTargeting';
 import * as growthSpecials from './mechanics/growthSpecials';
 import * as heal from './mechanics/heal';
+import * as instant from './mechanics/instant';
 import * as mindControl from './mechanics/mindControl';
 import * as playerAid from './mechanics/playerAid';
 import * as poison from './mechanics/poison';
@@ -24,7 +26,9 @@ import * as skills from './mechanics/skills';
 import * as sleep from './mechanics/sleep';
 import * as summonUnits from './mechanics/summonUnits';
 import * as synthSpecials from './mechanics/synthSpecials';
+import * as win from './mechanics/win';
 import { buildParameters } from './parameters';
+import { Registry } from './registry';
 import { TargeterData, targeterList } from './targeterList';
 import { TriggerData, triggerList } from './triggerList';
 
@@ -35,16 +39,8 @@ export interface MechanicData {
     trigger?: TriggerData;
 }
 
-class MechanicList {
-    private constructors: Map<string, MechanicConstructor> = new Map();
-    private constructorList: MechanicConstructor[] = [];
-
-    public addConstructors(...constructors: MechanicConstructor[]) {
-        for (const constructor of constructors) {
-            this.constructorList.push(constructor);
-            this.constructors.set(constructor.getId(), constructor);
-        }
-    }
+class MechanicList extends Registry<MechanicConstructor> {
+    protected kind = 'mechanic';
 
     public buildInstance(data: MechanicData, cards: CardList) {
         const constructor = this.constructors.get(data.id);
@@ -75,7 +71,11 @@ class MechanicList {
             data.targeter.id !== 'Host'
         ) {
             (instance as TargetedMechanic).setTargeter(
-                targeterList.buildInstance(data.targeter)
+                targeterList.buildInstance(
+                    data.targeter,
+                    cards,
+                    this.constructors
+                )
             );
         }
         return instance;
@@ -137,8 +137,10 @@ const sources = [
     decaySpecials,
     draw,
     enchantmentCounters,
+    enchantmentTargeting,
     growthSpecials,
     heal,
+    instant,
     mindControl,
     playerAid,
     removal,
@@ -147,7 +149,8 @@ const sources = [
     shuffleIntoDeck,
     sleep,
     summonUnits,
-    synthSpecials
+    synthSpecials,
+    win
 ];
 for (const source of sources) {
     mechanicList.addConstructors(...(values(source) as MechanicConstructor[]));
@@ -11,7 +11,7 @@ import {
 import { properCase } from '../../strings';
 import { Unit } from '../../card-types/unit';
 import { MechanicConstructor } from '../mechanicConstructor';
-import { ParameterType } from '../parameters';
+import { ParameterData, ParameterType } from '../parameters';
 
 export class BuffTarget extends UnitTargetedMechanic {
     protected static id = 'BuffTarget';
@@ -24,6 +24,10 @@ export class BuffTarget extends UnitTargetedMechanic {
         super();
     }
 
+    public getParameterValues(): ParameterData[] {
+        return [this.damage, this.life];
+    }
+
     public onTrigger(card: Card, game: Game) {
         for (const target of this.targeter.getUnitTargets(card, game, this)) {
             target.buff(this.damage, this.life);
@@ -61,6 +65,10 @@ export class GrantAbility extends UnitTargetedMechanic {
         super();
     }
 
+    public getParameterValues(): ParameterData[] {
+        return [this.ability.getId()];
+    }
+
     public onTrigger(card: Card, game: Game) {
         for (const target of this.targeter.getUnitTargets(card, game, this)) {
             target.addMechanic(new this.ability(), game);
@@ -3,7 +3,7 @@ import { Game } from '../../game';
 import { EvalContext, Mechanic, UnitTargetedMechanic, EvalMap, maybeEvaluate } from '../../mechanic';
 import { ResourceType } from '../../resource';
 import { Unit } from '../../card-types/unit';
-import { ParameterType } from '../parameters';
+import { ParameterData, ParameterType } from '../parameters';
 
 export class DamageOnBlock extends Mechanic {
     protected static id = 'DamageOnBlock';
@@ -16,6 +16,10 @@ export class DamageOnBlock extends Mechanic {
         super();
     }
 
+    public getParameterValues(): ParameterData[] {
+        return [this.damage];
+    }
+
     public enter(card: Card, game: Game) {
         (card as Unit).getEvents().block.addEvent(this, params => {
             const attacker = params.attacker;
@@ -49,6 +53,10 @@ export class DealDamage extends UnitTargetedMechanic {
         super();
     }
 
+    public getParameterValues(): ParameterData[] {
+        return [this.amount];
+    }
+
     public onTrigger(card: Card, game: Game) {
         const dmg = this.getDamage(card, game);
         for (const target of this.targeter.getUnitTargets(card, game, this)) {
@@ -113,10 +121,21 @@ export class DamageSpawnOnKill extends DealDamage {
         { name: 'unit', type: ParameterType.Unit }
     ];
 
-    private name: string;
+    private name?: string;
     constructor(amount: number = 1, private factory: () => Unit) {
         super(amount);
-        this.name = factory().getName();
+    }
+
+    public getParameterValues(): ParameterData[] {
+        return [this.amount, this.factory().getDataId()];
+    }
+
+    /** Gets the name of the summoned unit, looked up when first needed so it may be loaded later */
+    private getName() {
+        if (this.name === undefined) {
+            this.name = this.factory().getName();
+        }
+        return this.name;
     }
 
     public onTrigger(card: Card, game: Game) {
@@ -132,9 +151,7 @@ export class DamageSpawnOnKill extends DealDamage {
     public getText(card: Card) {
         return `Deal ${
             this.amount
-        } damage to ${this.targeter.getTextOrPronoun()}. If it dies summon a ${
-            this.name
-        }.`;
+        } damage to ${this.targeter.getTextOrPronoun()}. If it dies summon a ${this.getName()}.`;
     }
 }
 
@@ -147,6 +164,10 @@ export class DealResourceDamage extends DealDamage {
     constructor(private resource = ResourceType.Synthesis) {
         super(0);
     }
+
+    public getParameterValues(): ParameterData[] {
+        return [this.resource];
+    }
     public getDamage(card: Card, game: Game) {
         return game
             .getPlayer(card.getOwner())
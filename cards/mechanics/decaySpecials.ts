@@ -4,7 +4,7 @@ import { Card, CardType, GameZone } from '../../card-types/card';
 import { Game } from '../../game';
 import { Mechanic, TriggeredMechanic } from '../../mechanic';
 import { Unit, UnitType } from '../../card-types/unit';
-import { ParameterType } from '../parameters';
+import { ParameterData, ParameterType } from '../parameters';
 
 export class TransformDamaged extends Mechanic {
     protected static id = 'TransformDamaged';
@@ -12,11 +12,13 @@ export class TransformDamaged extends Mechanic {
         { name: 'Transform Unit', type: ParameterType.Unit }
     ];
 
-    private unitDesc: string;
+    private unitDesc?: string;
     constructor(private transformation: () => Unit) {
         super();
-        const unit = transformation();
-        this.unitDesc = unit.getName();
+    }
+
+    public getParameterValues(): ParameterData[] {
+        return [this.transformation().getDataId()];
     }
 
     public enter(card: Card, game: Game) {
@@ -36,6 +38,9 @@ export class TransformDamaged extends Mechanic {
     }
 
     public getText(card: Card) {
+        if (this.unitDesc === undefined) {
+            this.unitDesc = this.transformation().getName();
+        }
         return `Transform any unit this damages into a ${this.unitDesc}.`;
     }
 
@@ -49,26 +54,26 @@ export class AbominationConsume extends TriggeredMechanic {
     protected static validCardTypes = new Set([CardType.Unit, CardType.Item]);
 
     public onTrigger(card: Card, game: Game) {
-        const crypt = game.getCrypt(card.getOwner());
-        const valid = crypt.filter(cryptCard => cryptCard.isUnit());
-        const unit = card as Unit;
-        game.promptCardChoice(
-            card.getOwner(),
-            valid,
+        game.promptMechanicChoice(
+            card,
+            this,
+            this.getValidPool(card, game),
             0,
             2,
-            (raised: Card[]) => {
-                raised.forEach(toRaise => {
-                    const eaten = toRaise as Unit;
-                    unit.buff(eaten.getDamage(), eaten.getMaxLife());
-                    remove(crypt, eaten);
-                });
-            },
             'to combine',
             ChoiceHeuristic.HighestStatsHeuristic
         );
     }
 
+    public resolveChoice(card: Card, game: Game, raised: Card[]) {
+        const crypt = game.getCrypt(card.getOwner());
+        raised.forEach(toRaise => {
+            const eaten = toRaise as Unit;
+            (card as Unit).buff(eaten.getDamage(), eaten.getMaxLife());
+            remove(crypt, eaten);
+        });
+    }
+
     private getValidPool(card: Card, game: Game): Unit[] {
         return game
             .getCrypt(card.getOwner())
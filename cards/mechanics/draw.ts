@@ -1,10 +1,11 @@
+import { flatMap } from 'lodash';
 import { ChoiceHeuristic } from '../../ai/heuristics';
 import { Card } from '../../card-types/card';
 import { Game } from '../../game';
 import { Mechanic, TriggeredMechanic } from '../../mechanic';
 import { Player } from '../../player';
 import { Unit, UnitType } from '../../card-types/unit';
-import { ParameterType } from '../parameters';
+import { ParameterData, ParameterType } from '../parameters';
 import { ResourceType } from '../../resource';
 
 export class DrawCard extends TriggeredMechanic {
@@ -17,6 +18,10 @@ export class DrawCard extends TriggeredMechanic {
         super();
     }
 
+    public getParameterValues(): ParameterData[] {
+        return [this.count];
+    }
+
     public onTrigger(card: Card, game: Game) {
         game.getPlayer(card.getOwner()).drawCards(this.count);
     }
@@ -38,10 +43,11 @@ export class Peek extends TriggeredMechanic {
 
     public onTrigger(card: Card, game: Game) {
         game.queryCards(
+            card.getOwner(),
             (queried: Game) =>
-                queried
-                    .getPlayer(queried.getOtherPlayerNumber(card.getOwner()))
-                    .getHand(),
+                flatMap(queried.getOpponents(card.getOwner()), opponent =>
+                    queried.getPlayer(opponent).getHand()
+                ),
             hand => {
                 game.promptCardChoice(
                     card.getOwner(),
@@ -74,11 +80,14 @@ export class Discard extends TriggeredMechanic {
     constructor(private count: number = 1) {
         super();
     }
+
+    public getParameterValues(): ParameterData[] {
+        return [this.count];
+    }
     public onTrigger(card: Card, game: Game) {
-        const target = game.getPlayer(
-            game.getOtherPlayerNumber(card.getOwner())
-        );
-        target.discard(game, this.count);
+        for (const opponent of game.getOpponents(card.getOwner())) {
+            game.getPlayer(opponent).discard(game, this.count);
+        }
     }
 
     public getText(card: Card) {
@@ -2,7 +2,7 @@ import { Card, CardType } from '../../card-types/card';
 import { Enchantment } from '../../card-types/enchantment';
 import { Game } from '../../game';
 import { Mechanic, TriggeredMechanic } from '../../mechanic';
-import { ParameterType } from '../parameters';
+import { ParameterData, ParameterType } from '../parameters';
 
 export class Recharge extends Mechanic {
     protected static id = 'Recharge';
@@ -15,6 +15,10 @@ export class Recharge extends Mechanic {
         super();
     }
 
+    public getParameterValues(): ParameterData[] {
+        return [this.amountPerTurn];
+    }
+
     public enter(card: Card, game: Game) {
         const enchantment = card as Enchantment;
         game.getEvents().startOfTurn.addEvent(this, params => {
@@ -79,6 +83,10 @@ export class ChangePower extends TriggeredMechanic {
         this.desc += ' ' + Math.abs(diff) + ' power.';
     }
 
+    public getParameterValues(): ParameterData[] {
+        return [this.diff];
+    }
+
     public onTrigger(card: Card, game: Game) {
         const enchantment = card as Enchantment;
         enchantment.changePower(this.diff);
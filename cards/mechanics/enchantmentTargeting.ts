@@ -3,7 +3,7 @@ import { Enchantment } from '../../card-types/enchantment';
 import { Unit } from '../../card-types/unit';
 import { Game } from '../../game';
 import { EnchantmentTargetedMechanic, EvalMap } from '../../mechanic';
-import { ParameterType } from '../parameters';
+import { ParameterData, ParameterType } from '../parameters';
 
 export class RemovePower extends EnchantmentTargetedMechanic {
     protected static id = 'RemovePower';
@@ -15,6 +15,10 @@ export class RemovePower extends EnchantmentTargetedMechanic {
         super();
     }
 
+    public getParameterValues(): ParameterData[] {
+        return [this.amount];
+    }
+
     public onTrigger(card: Card, game: Game) {
         for (const target of this.targeter.getEnchantmentTargets(
             card,
@@ -57,6 +61,10 @@ abstract class DrainPower extends EnchantmentTargetedMechanic {
         super();
     }
 
+    public getParameterValues(): ParameterData[] {
+        return [this.amount];
+    }
+
     protected abstract drainEffect(
         card: Card,
         game: Game,
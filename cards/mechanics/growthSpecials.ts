@@ -2,7 +2,7 @@ import { Card } from '../../card-types/card';
 import { Game } from '../../game';
 import { UnitTargetedMechanic, maybeEvaluate, EvalContext, EvalMap } from '../../mechanic';
 import { Unit } from '../../card-types/unit';
-import { ParameterType } from '../parameters';
+import { ParameterData, ParameterType } from '../parameters';
 import { Flying } from './skills';
 
 export class DrawCardsFromUnit extends UnitTargetedMechanic {
@@ -14,6 +14,10 @@ export class DrawCardsFromUnit extends UnitTargetedMechanic {
         super();
     }
 
+    public getParameterValues(): ParameterData[] {
+        return [this.factor];
+    }
+
     private getCards(target: Unit) {
         return Math.floor(target.getStats() / this.factor);
     }
@@ -0,0 +1,21 @@
+import { Card, CardType } from '../../card-types/card';
+import { Mechanic } from '../../mechanic';
+
+/**
+ * Marks a card as an instant.
+ *
+ * Instants may be played while holding priority during a response phase.
+ * They resolve before whatever they were played in response to.
+ */
+export class Instant extends Mechanic {
+    protected static id = 'Instant';
+    protected static validCardTypes = new Set([CardType.Spell]);
+
+    public getText(card: Card) {
+        return 'Instant.';
+    }
+
+    public evaluate() {
+        return 0;
+    }
+}
@@ -1,14 +1,17 @@
-import { Card } from '../../card-types/card';
+import { Card, CardType } from '../../card-types/card';
 import { Game } from '../../game';
 import { Mechanic } from '../../mechanic';
-import { Permanent } from '../../card-types/permanent';
 import { formatBuff } from '../../strings';
 import { Unit, UnitType } from '../../card-types/unit';
-import { ParameterType } from '../parameters';
+import { ParameterData, ParameterType } from '../parameters';
 
 abstract class Lordship extends Mechanic {
     protected static id = 'Lordship';
-    protected static validCardTypes = Permanent.cardTypes;
+    protected static validCardTypes = new Set([
+        CardType.Unit,
+        CardType.Item,
+        CardType.Enchantment
+    ]);
 
     constructor(private valuePerUnit: number) {
         super();
@@ -80,6 +83,10 @@ export class FriendlyLordship extends Lordship {
         this.text = `Other friendly units have ${formatBuff(attack, life)}.`;
     }
 
+    public getParameterValues(): ParameterData[] {
+        return [this.attack, this.life];
+    }
+
     protected addEffect(unit: Unit) {
         unit.buff(this.attack, this.life);
     }
@@ -107,6 +114,10 @@ export class UnitTypeLordshipAll extends FriendlyLordship {
         this.unitType = unitType;
     }
 
+    public getParameterValues(): ParameterData[] {
+        return [this.unitType, this.attack, this.life];
+    }
+
     protected filter(source: Unit, target: Unit) {
         return (
             this.unitType === target.getUnitType()
@@ -9,7 +9,7 @@ export class MindControl extends UnitTargetedMechanic {
     public onTrigger(card: Card, game: Game) {
         const targets = this.targeter.getUnitTargets(card, game, this);
         for (const target of targets) {
-            game.changeUnitOwner(target);
+            game.changeUnitOwner(target, card.getOwner());
         }
     }
 
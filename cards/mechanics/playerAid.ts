@@ -2,7 +2,7 @@ import { Card } from '../../card-types/card';
 import { Game } from '../../game';
 import { TriggeredMechanic } from '../../mechanic';
 import { Resource } from '../../resource';
-import { ParameterType } from '../parameters';
+import { ParameterData, ParameterType } from '../parameters';
 
 export class GainLife extends TriggeredMechanic {
     protected static id = 'GainLife';
@@ -14,6 +14,10 @@ export class GainLife extends TriggeredMechanic {
         super();
     }
 
+    public getParameterValues(): ParameterData[] {
+        return [this.amount];
+    }
+
     public onTrigger(card: Card, game: Game) {
         const player = game.getPlayer(card.getOwner());
         player.addLife(this.amount);
@@ -38,6 +42,10 @@ export class GainResource extends TriggeredMechanic {
         super();
     }
 
+    public getParameterValues(): ParameterData[] {
+        return [this.resource.getPrototype()];
+    }
+
     public onTrigger(card: Card, game: Game) {
         const player = game.getPlayer(card.getOwner());
         player.getPool().add(this.resource);
@@ -88,6 +88,7 @@ export class CurePoison extends UnitTargetedMechanic {
 }
 
 export class Venomous extends Mechanic {
+    public static readonly grantable = true;
     protected static id = 'Venomous';
     protected static validCardTypes = Permanent.cardTypes;
 
@@ -4,7 +4,7 @@ import { CardType } from '../../cardType';
 import { Game } from '../../game';
 import { TriggeredMechanic } from '../../mechanic';
 import { a } from '../../strings';
-import { ParameterType } from '../parameters';
+import { ParameterData, ParameterType } from '../parameters';
 
 export class ReturnFromCrypt extends TriggeredMechanic {
     protected static id = 'ReturnFromCrypt';
@@ -16,26 +16,31 @@ export class ReturnFromCrypt extends TriggeredMechanic {
         super();
     }
 
+    public getParameterValues(): ParameterData[] {
+        return [this.allowed];
+    }
+
     public onTrigger(card: Card, game: Game) {
-        const crypt = game.getCrypt(card.getOwner());
-        const validCards = this.getValidCards(card, game);
-        const player = game.getPlayer(card.getOwner());
-        game.promptCardChoice(
-            card.getOwner(),
-            validCards,
+        game.promptMechanicChoice(
+            card,
+            this,
+            this.getValidCards(card, game),
             0,
             1,
-            (raised: Card[]) => {
-                raised.forEach(raisedCard => {
-                    player.drawGeneratedCard(raisedCard);
-                    crypt.splice(crypt.indexOf(raisedCard), 1);
-                });
-            },
             'to draw',
             ChoiceHeuristic.DrawHeuristic
         );
     }
 
+    public resolveChoice(card: Card, game: Game, raised: Card[]) {
+        const crypt = game.getCrypt(card.getOwner());
+        const player = game.getPlayer(card.getOwner());
+        raised.forEach(raisedCard => {
+            player.drawGeneratedCard(raisedCard);
+            crypt.splice(crypt.indexOf(raisedCard), 1);
+        });
+    }
+
     public getText(card: Card) {
         const cardTypeName = CardType[this.allowed];
         return `Return ${a(
@@ -2,6 +2,7 @@ import { Card, CardType } from '../../card-types/card';
 import { Game } from '../../game';
 import { EvalContext, Mechanic } from '../../mechanic';
 import { Unit, UnitType } from '../../card-types/unit';
+import { ParameterData, ParameterType } from '../parameters';
 
 abstract class Skill extends Mechanic {
     public static readonly grantable = true;
@@ -246,11 +247,18 @@ export class Relentless extends Skill {
 
 export class Deathless extends Skill {
     protected static id = 'Deathless';
+    protected static ParameterTypes = [
+        { name: 'Charges', type: ParameterType.NaturalNumber }
+    ];
 
     constructor(private charges: number = 1) {
         super();
     }
 
+    public getParameterValues(): ParameterData[] {
+        return [this.charges];
+    }
+
     public enter(card: Card, game: Game) {
         const unit = card as Unit;
         unit.getEvents().death.addEvent(this, params => {
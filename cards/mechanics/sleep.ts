@@ -2,14 +2,23 @@ import { Card, CardType } from '../../card-types/card';
 import { Game } from '../../game';
 import { EvalContext, Mechanic, UnitTargetedMechanic, maybeEvaluate, EvalMap } from '../../mechanic';
 import { Unit } from '../../card-types/unit';
+import { ParameterData, ParameterType } from '../parameters';
 
 export class Sleeping extends Mechanic {
     protected static id = 'Sleeping';
     protected static validCardTypes = new Set([CardType.Unit]);
+    protected static ParameterTypes = [
+        { name: 'Turns', type: ParameterType.NaturalNumber }
+    ];
 
     constructor(private turns: number = 1) {
         super();
     }
+
+    public getParameterValues(): ParameterData[] {
+        return [this.turns];
+    }
+
     public enter(card: Card, game: Game) {
         const unit = card as Unit;
         unit.setExhausted(true);
@@ -48,10 +57,18 @@ export class Sleeping extends Mechanic {
 
 export class SleepTarget extends UnitTargetedMechanic {
     protected static id = 'SleepTarget';
+    protected static ParameterTypes = [
+        { name: 'Turns', type: ParameterType.NaturalNumber }
+    ];
+
     constructor(private turns: number = 1) {
         super();
     }
 
+    public getParameterValues(): ParameterData[] {
+        return [this.turns];
+    }
+
     public onTrigger(card: Card, game: Game) {
         for (const target of this.targeter.getUnitTargets(card, game, this)) {
             target.addMechanic(new Sleeping(this.turns), game);
@@ -10,7 +10,7 @@ import {
 } from '../../mechanic';
 import { a } from '../../strings';
 import { Unit, UnitType } from '../../card-types/unit';
-import { ParameterType } from '../parameters';
+import { ParameterData, ParameterType } from '../parameters';
 
 export class SummonUnits extends TriggeredMechanic {
     protected static id = 'SummonUnits';
@@ -19,12 +19,24 @@ export class SummonUnits extends TriggeredMechanic {
         { name: 'count', type: ParameterType.NaturalNumber }
     ];
 
-    protected name: string;
-    protected unit: Unit;
+    private unit?: Unit;
     constructor(protected factory: () => Unit, protected count: number = 1) {
         super();
-        this.unit = factory();
-        this.name = factory().getName();
+    }
+
+    /**
+     * Gets an example of the summoned unit. It is only built when first needed,
+     * so that cards can summon cards that are loaded after them.
+     */
+    protected getUnit() {
+        if (!this.unit) {
+            this.unit = this.factory();
+        }
+        return this.unit;
+    }
+
+    public getParameterValues(): ParameterData[] {
+        return [this.getUnit().getDataId(), this.count];
     }
 
     public onTrigger(card: Card, game: Game) {
@@ -39,9 +51,8 @@ export class SummonUnits extends TriggeredMechanic {
     }
 
     public getText(card: Card, game: Game) {
-        return `Summon ${this.count === 1 ? a(this.name) : this.count} ${
-            this.name
-        }.`;
+        const name = this.getUnit().getName();
+        return `Summon ${this.count === 1 ? a(name) : this.count} ${name}.`;
     }
 
     public evaluateEffect(
@@ -51,7 +62,7 @@ export class SummonUnits extends TriggeredMechanic {
         evaluated: EvalMap
     ) {
         return (
-            this.unit.evaluate(game, EvalContext.Play, evaluated) *
+            this.getUnit().evaluate(game, EvalContext.Play, evaluated) *
             Math.min(
                 this.getUnitCount(card, game),
                 game.getBoard().getRemainingSpace(card.getOwner())
@@ -71,6 +82,10 @@ export class SummonUnitForGrave extends SummonUnits {
         super(factory, 0);
     }
 
+    public getParameterValues(): ParameterData[] {
+        return [this.getUnit().getDataId(), this.factor];
+    }
+
     public getUnitCount(card: Card, game: Game) {
         return Math.floor(
             game
@@ -81,15 +96,16 @@ export class SummonUnitForGrave extends SummonUnits {
     }
 
     public getText(card: Card, game: Game) {
+        const name = this.getUnit().getName();
         if (game) {
-            return `Play ${a(this.name)} ${this.name} for each ${
+            return `Play ${a(name)} ${name} for each ${
                 this.factor
             } units in any crypt [dynamic](${this.getUnitCount(
                 card,
                 game
             )})[/dynamic].`;
         } else {
-            return `Play ${a(this.name)} ${this.name} for each ${
+            return `Play ${a(name)} ${name} for each ${
                 this.factor
             } units in any crypt (rounded down).`;
         }
@@ -110,9 +126,10 @@ export class EnchantmentSummon extends SummonUnits {
     }
 
     public getText(card: Card, game: Game) {
-        return `Summon ${this.count === 1 ? a(this.name) : this.count} ${
-            this.name
-        }. It becomes an X/X where X is this enchantment’s power.`;
+        const name = this.getUnit().getName();
+        return `Summon ${
+            this.count === 1 ? a(name) : this.count
+        } ${name}. It becomes an X/X where X is this enchantment’s power.`;
     }
 
     public evaluate(
@@ -122,7 +139,7 @@ export class EnchantmentSummon extends SummonUnits {
         evaluated: EvalMap
     ) {
         return (
-            this.unit.evaluate(game, EvalContext.Play, evaluated) *
+            this.getUnit().evaluate(game, EvalContext.Play, evaluated) *
             Math.min(
                 this.getUnitCount(card, game),
                 game.getBoard().getRemainingSpace(card.getOwner())
@@ -137,13 +154,22 @@ export class SummonUnitOnDamage extends Mechanic {
         { name: 'unit', type: ParameterType.Unit }
     ];
 
-    protected name: string;
-    protected unit: Unit;
+    private unit?: Unit;
 
     constructor(protected factory: () => Unit) {
         super();
-        this.unit = factory();
-        this.name = this.unit.getName();
+    }
+
+    /** Gets an example of the summoned unit, built when first needed */
+    protected getUnit() {
+        if (!this.unit) {
+            this.unit = this.factory();
+        }
+        return this.unit;
+    }
+
+    public getParameterValues(): ParameterData[] {
+        return [this.getUnit().getDataId()];
     }
 
     public enter(card: Card, game: Game) {
@@ -162,9 +188,8 @@ export class SummonUnitOnDamage extends Mechanic {
     }
 
     public getText(card: Card) {
-        return `Whenever this damages your opponent summon ${a(this.name)} ${
-            this.name
-        }.`;
+        const name = this.getUnit().getName();
+        return `Whenever this damages your opponent summon ${a(name)} ${name}.`;
     }
 
     public evaluate(
@@ -175,6 +200,6 @@ export class SummonUnitOnDamage extends Mechanic {
     ) {
         // TODO something cleverer
         // Look at whether opponent can Block?
-        return maybeEvaluate(game, EvalContext.Play, this.unit, evaluated);
+        return maybeEvaluate(game, EvalContext.Play, this.getUnit(), evaluated);
     }
 }
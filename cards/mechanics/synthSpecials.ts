@@ -23,10 +23,6 @@ export class Robotic extends Mechanic {
         }
     }
 
-    public getId() {
-        return 'robotic';
-    }
-
     public getText(card: Card) {
         return `Robotic.`;
     }
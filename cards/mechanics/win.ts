@@ -1,7 +1,7 @@
 import { Card } from '../../card-types/card';
 import { Game } from '../../game';
 import { TriggeredMechanic } from '../../mechanic';
-import { ParameterType } from '../parameters';
+import { ParameterData, ParameterType } from '../parameters';
 
 export class WinIfHighLife extends TriggeredMechanic {
     protected static id = 'WinIfHighLife';
@@ -13,14 +13,17 @@ export class WinIfHighLife extends TriggeredMechanic {
         super();
     }
 
+    public getParameterValues(): ParameterData[] {
+        return [this.threshold];
+    }
+
     public onTrigger(card: Card, game: Game) {
         const friendlyPlayer = game.getPlayer(card.getOwner());
-        const enemyPlayer = game.getPlayer(
-            game.getOtherPlayerNumber(card.getOwner())
-        );
-
-        if (friendlyPlayer.getLife() >= this.threshold) {
-            enemyPlayer.die();
+        if (friendlyPlayer.getLife() < this.threshold) {
+            return;
+        }
+        for (const opponent of game.getOpponents(card.getOwner())) {
+            game.getPlayer(opponent).die();
         }
     }
 
@@ -20,6 +20,14 @@ export enum ParameterType {
 
 export type ParameterData = number | string | ResourcePrototype;
 
+/** Checks if a parameter refers to a card by its id */
+export const isCardParameter = (type: ParameterType) =>
+    type === ParameterType.Card ||
+    type === ParameterType.Spell ||
+    type === ParameterType.Unit ||
+    type === ParameterType.Item ||
+    type === ParameterType.Enchantment;
+
 const parseInteger = (data: ParameterData, min: number, max: number) => {
     if (typeof data === 'string') {
         data = parseInt(data, 10);
@@ -37,21 +45,25 @@ const getDefaultCard = (cards: CardList, expectedType?: CardType) =>
             (card: Card) => !expectedType || card.getCardType() === expectedType
         );
 
+// Cards are looked up when the factory is called, so cards can refer to cards loaded after them
 const loadCard = (
     data: ParameterData,
     cards: CardList,
     expectedType?: CardType
 ) => {
-    let result: Card;
     if (typeof data !== 'string') {
         return () => getDefaultCard(cards, expectedType);
     }
-    result = cards.getCard(data);
-    if (result.getCardType() !== expectedType) {
-        return () => getDefaultCard(cards, expectedType);
-    }
-    const id = result.getDataId();
-    return () => cards.getCard(id);
+    return () => {
+        const result = cards.getCard(data);
+        if (
+            expectedType !== undefined &&
+            result.getCardType() !== expectedType
+        ) {
+            return getDefaultCard(cards, expectedType);
+        }
+        return result;
+    };
 };
 
 const loadAbility = (
@@ -78,7 +90,7 @@ const parseResourceType = (data: ParameterData): string => {
         case ResourceType.Synthesis:
             return ResourceType.Synthesis;
     }
-    throw new Error();
+    throw new Error(`${data} is not a resource type`);
 };
 
 const loadResource = (data: ParameterData) => {
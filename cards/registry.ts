@@ -0,0 +1,65 @@
+export interface RegisteredConstructor {
+    name: string;
+    getId(): string;
+}
+
+/**
+ * A list of classes that card data can refer to by id (mechanics, triggers and targeters).
+ *
+ * Classes without an id of their own and ids used by more than one class are recorded as
+ * problems instead of silently replacing each other, so auditRegistries can report them.
+ */
+export abstract class Registry<T extends RegisteredConstructor> {
+    // What the registry holds, used to describe problems
+    protected abstract kind: string;
+    protected constructors: Map<string, T> = new Map();
+    protected constructorList: T[] = [];
+    private problems: string[] = [];
+
+    public addConstructors(...constructors: T[]) {
+        for (const constructor of constructors) {
+            const id = constructor.getId();
+            if (!Object.prototype.hasOwnProperty.call(constructor, 'id')) {
+                this.problems.push(
+                    `${this.kind} ${constructor.name} does not have an id of its own`
+                );
+                continue;
+            }
+            const existing = this.constructors.get(id);
+            if (existing) {
+                this.problems.push(
+                    `${this.kind} id ${id} is used by both ${existing.name} and ${constructor.name}`
+                );
+            }
+            this.constructors.set(id, constructor);
+            this.constructorList.push(constructor);
+        }
+    }
+
+    public exists(id: string) {
+        return this.constructors.has(id);
+    }
+
+    public getConstructor(id: string) {
+        return this.constructors.get(id);
+    }
+
+    /** Gets every registered class by its id */
+    public getConstructorMap() {
+        return this.constructors;
+    }
+
+    /** Checks that an object was built by the class registered under its id */
+    public isRegistered(instance: { getId(): string }) {
+        const constructor = this.constructors.get(instance.getId());
+        return (
+            constructor !== undefined &&
+            (instance.constructor as unknown) === constructor
+        );
+    }
+
+    /** Gets the problems found while classes were registered */
+    public getProblems() {
+        return [...this.problems];
+    }
+}
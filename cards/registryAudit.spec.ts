@@ -0,0 +1,17 @@
+import { auditRegistries } from './registryAudit';
+
+describe('Registry audit', () => {
+    const audit = auditRegistries();
+
+    it('should not find registration problems', () => {
+        expect(audit.registrationProblems).toEqual([]);
+    });
+
+    it('should find every class used by a card in its registry', () => {
+        expect(audit.unregistered).toEqual([]);
+    });
+
+    it('should convert every card to data and back unchanged', () => {
+        expect(audit.roundTripFailures).toEqual([]);
+    });
+});
@@ -0,0 +1,131 @@
+import { uniq } from 'lodash';
+import { Card } from '../card-types/card';
+import { Item } from '../card-types/item';
+import { Spell } from '../card-types/spell';
+import { TargetedMechanic, TriggeredMechanic } from '../mechanic';
+import { CardList, cardList } from './cardList';
+import { findExportProblem } from './cardSetLoader';
+import { mechanicList } from './mechanicList';
+import { RegisteredConstructor, Registry } from './registry';
+import { targeterList } from './targeterList';
+import { triggerList } from './triggerList';
+
+export interface RegistryAudit {
+    // Duplicate ids and classes that were registered without an id
+    registrationProblems: string[];
+    // Classes used by cards that card data can't refer to
+    unregistered: string[];
+    // Cards that can't be converted to CardData and loaded back unchanged
+    roundTripFailures: string[];
+}
+
+const describeUnregistered = (
+    registry: Registry<RegisteredConstructor>,
+    kind: string,
+    part: { getId(): string },
+    card: Card
+) =>
+    registry.isRegistered(part)
+        ? []
+        : [
+              `${kind} ${part.constructor.name} (id ${part.getId()}) used by ${card.getDataId()} is not registered`
+          ];
+
+function findUnregistered(card: Card) {
+    if (!(card instanceof Spell)) {
+        return [];
+    }
+    const problems = describeUnregistered(
+        targeterList,
+        'targeter',
+        card.getTargeter(),
+        card
+    );
+    if (card instanceof Item) {
+        problems.push(
+            ...describeUnregistered(
+                targeterList,
+                'targeter',
+                card.getHostTargeter(),
+                card
+            )
+        );
+    }
+    for (const mechanic of card.getMechanics()) {
+        problems.push(
+            ...describeUnregistered(mechanicList, 'mechanic', mechanic, card)
+        );
+        if (mechanic instanceof TriggeredMechanic) {
+            problems.push(
+                ...describeUnregistered(
+                    triggerList,
+                    'trigger',
+                    mechanic.getTrigger(),
+                    card
+                )
+            );
+        }
+        if (mechanic instanceof TargetedMechanic) {
+            problems.push(
+                ...describeUnregistered(
+                    targeterList,
+                    'targeter',
+                    mechanic.getTargeter(),
+                    card
+                )
+            );
+        }
+    }
+    return problems;
+}
+
+/** Converts a card to data and back, returning why that changed the card or null if it did not */
+function findRoundTripProblem(card: Card, cards: CardList) {
+    const problem = findExportProblem(card);
+    if (problem) {
+        return problem;
+    }
+    const data = card.toCardData();
+    let rebuilt: Card;
+    try {
+        rebuilt = cards.buildInstance(data);
+    } catch (error) {
+        return `its data could not be loaded (${error.message})`;
+    }
+    const rebuiltProblem = findExportProblem(rebuilt);
+    if (rebuiltProblem) {
+        return `the loaded card can't be converted back (${rebuiltProblem})`;
+    }
+    if (JSON.stringify(rebuilt.toCardData()) !== JSON.stringify(data)) {
+        return 'the loaded card differs from the original';
+    }
+    if (rebuilt.getText() !== card.getText()) {
+        return `the loaded card reads "${rebuilt.getText()}" instead of "${card.getText()}"`;
+    }
+    return null;
+}
+
+/**
+ * Checks that the mechanic, trigger and targeter registries cover everything the cards
+ * in a card list use, and that each card survives being converted to data and back.
+ */
+export function auditRegistries(cards: CardList = cardList): RegistryAudit {
+    const unregistered: string[] = [];
+    const roundTripFailures: string[] = [];
+    for (const card of cards.getCards()) {
+        unregistered.push(...findUnregistered(card));
+        const problem = findRoundTripProblem(card, cards);
+        if (problem) {
+            roundTripFailures.push(`${card.getDataId()}: ${problem}`);
+        }
+    }
+    return {
+        registrationProblems: [
+            ...mechanicList.getProblems(),
+            ...triggerList.getProblems(),
+            ...targeterList.getProblems()
+        ],
+        unregistered: uniq(unregistered),
+        roundTripFailures: roundTripFailures
+    };
+}
@@ -1,48 +1,66 @@
 import { values } from 'lodash';
+import { CardType } from '../card-types/card';
 import { Targeter } from '../targeter';
+import { CardList } from './cardList';
+import { MechanicConstructor } from './mechanicConstructor';
+import { Registry } from './registry';
+import { buildParameters, ParameterData, ParameterType } from './parameters';
 import * as basicTargeters from './targeters/basicTargeter';
 import * as biotargeters from './targeters/biotargeter';
+import * as enchantmentTargeters from './targeters/enchantmentTargeters';
 import * as mechanicTargeters from './targeters/mechanicTargeter';
+import * as mindControlTargeter from './targeters/mindControlTargeter';
+import * as permanentTargeters from './targeters/permanentTargeters';
 import * as poisonTargeter from './targeters/poisonTargeter';
 import * as powerTargeter from './targeters/powerTargeter';
+import * as unitTypeTargeter from './targeters/unitTypeTargeter';
 import * as weakenedUnits from './targeters/weakenedUnits';
 
 const targeterGroups = [
     biotargeters,
     basicTargeters,
+    enchantmentTargeters,
     mechanicTargeters,
+    mindControlTargeter,
+    permanentTargeters,
     poisonTargeter,
     powerTargeter,
+    unitTypeTargeter,
     weakenedUnits
 ];
 
 export interface TargeterData {
     id: string;
     optional: boolean;
+    // Only needed by targeters that take parameters (such as the unit type they target)
+    parameters?: ParameterData[];
 }
 
-class TargeterList {
-    private constructors: Map<string, TargeterConstructor> = new Map();
-    private constructorList: TargeterConstructor[] = [];
+class TargeterList extends Registry<TargeterConstructor> {
+    protected kind = 'targeter';
 
-    public addConstructors(...constructors: TargeterConstructor[]) {
-        for (const constructor of constructors) {
-            const id = constructor.getId();
-            if (this.constructors.has(id)) {
-                console.warn('Warning, overwriting targeter ID', id);
-            }
-            this.constructors.set(id, constructor);
-            this.constructorList.push(constructor);
-        }
-    }
-
-    public buildInstance(data: TargeterData) {
+    /**
+     * Builds a targeter from its data.
+     *
+     * @param abilities - The mechanics that targeters with ability parameters can refer to
+     */
+    public buildInstance(
+        data: TargeterData,
+        cards: CardList,
+        abilities: Map<string, MechanicConstructor> = new Map()
+    ) {
         let constructor = this.constructors.get(data.id);
         if (!constructor) {
             console.warn('No targeter with ID', data.id);
             constructor = basicTargeters.Untargeted;
         }
-        const instance = new constructor();
+        const paramterValues = buildParameters(
+            constructor.getParameterTypes().map(param => param.type),
+            data.parameters || [],
+            cards,
+            abilities
+        );
+        const instance = new constructor(...paramterValues);
         instance.setOptional(data.optional);
         return instance;
     }
@@ -58,8 +76,11 @@ class TargeterList {
 }
 
 interface TargeterConstructor {
+    name: string;
     getId(): string;
-    new (): Targeter;
+    getParameterTypes(): { name: string; type: ParameterType }[];
+    canTarget(cardType: CardType): boolean;
+    new (...params: any[]): Targeter;
 }
 
 export const targeterList = new TargeterList();
@@ -0,0 +1,61 @@
+import { ServerGame } from 'app/game_model/serverGame';
+import { twoVersusTwoFormat } from 'app/game_model/gameFormat';
+import { getStarterDecks } from 'app/game_model/scenarios/decks';
+import { Unit } from 'app/game_model/card-types/unit';
+import { pikeman } from '../renewalCards';
+import {
+    EnemyPlayer,
+    EnemyUnits,
+    FriendlyUnit,
+    FriendlyUnits,
+    Friends
+} from './basicTargeter';
+
+describe('Basic targeters in team games', () => {
+    let game: ServerGame;
+    let units: Unit[];
+    let host: Unit;
+
+    beforeEach(() => {
+        game = new ServerGame('game', twoVersusTwoFormat, getStarterDecks());
+        // Players 0 and 2 are one team, 1 and 3 the other
+        units = [0, 1, 2, 3].map(player =>
+            game.playGeneratedUnit(player, pikeman())
+        );
+        host = units[0];
+    });
+
+    it('FriendlyUnit should be able to target teammates units', () => {
+        expect(new FriendlyUnit().getValidTargets(host, game)).toEqual([
+            units[0],
+            units[2]
+        ]);
+    });
+
+    it('FriendlyUnits should include teammates units', () => {
+        expect(new FriendlyUnits().getUnitTargets(host, game)).toEqual([
+            units[0],
+            units[2]
+        ]);
+    });
+
+    it('Friends should include teammates and their units', () => {
+        expect(new Friends().getUnitTargets(host, game)).toEqual([
+            units[0],
+            units[2],
+            game.getPlayer(0),
+            game.getPlayer(2)
+        ]);
+    });
+
+    it('EnemyUnits and EnemyPlayer should include each opponent', () => {
+        expect(new EnemyUnits().getUnitTargets(host, game)).toEqual([
+            units[1],
+            units[3]
+        ]);
+        expect(new EnemyPlayer().getUnitTargets(host, game)).toEqual([
+            game.getPlayer(1),
+            game.getPlayer(3)
+        ]);
+    });
+});
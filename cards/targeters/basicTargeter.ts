@@ -5,6 +5,20 @@ import { Mechanic, TriggeredMechanic } from '../../mechanic';
 import { Targeter } from '../../targeter';
 import { Unit } from '../../card-types/unit';
 
+/** Gets the player of each opponent of a card's owner who is still in the game */
+function getOpposingPlayers(card: Card, game: Game) {
+    return game
+        .getOpponents(card.getOwner())
+        .map(playerNumber => game.getPlayer(playerNumber));
+}
+
+/** Gets the player of each teammate of a card's owner who is still in the game */
+function getAlliedPlayers(card: Card, game: Game) {
+    return game
+        .getAllies(card.getOwner())
+        .map(playerNumber => game.getPlayer(playerNumber));
+}
+
 export class TriggeringUnit extends Targeter {
     protected static id = 'TriggeringUnit';
 
@@ -50,7 +64,7 @@ export class EnemyPlayer extends Targeter {
     }
 
     public getUnitTargets(card: Card, game: Game) {
-        return [game.getPlayer(game.getOtherPlayerNumber(card.getOwner()))];
+        return getOpposingPlayers(card, game);
     }
 
     public getText() {
@@ -60,6 +74,7 @@ export class EnemyPlayer extends Targeter {
 
 export class Untargeted extends Targeter {
     protected static id = 'Untargeted';
+    protected static targetedCardTypes = new Set<CardType>();
     public getText() {
         return '';
     }
@@ -115,7 +130,7 @@ export class FriendlyUnit extends SingleUnit {
         return game
             .getBoard()
             .getAllUnits()
-            .filter(unit => unit.getOwner() === card.getOwner());
+            .filter(unit => game.isAlly(unit.getOwner(), card.getOwner()));
     }
     public getText() {
         return 'target friendly unit';
@@ -129,7 +144,7 @@ export class EnemyUnit extends SingleUnit {
         return game
             .getBoard()
             .getAllUnits()
-            .filter(unit => unit.getOwner() !== card.getOwner());
+            .filter(unit => !game.isAlly(unit.getOwner(), card.getOwner()));
     }
     public getText() {
         return 'target enemy unit';
@@ -180,7 +195,7 @@ export class FriendlyUnits extends AllUnits {
         this.lastTargets = game
             .getBoard()
             .getAllUnits()
-            .filter(unit => unit.getOwner() === card.getOwner());
+            .filter(unit => game.isAlly(unit.getOwner(), card.getOwner()));
         return this.lastTargets;
     }
 }
@@ -194,7 +209,7 @@ export class EnemyUnits extends AllUnits {
         this.lastTargets = game
             .getBoard()
             .getAllUnits()
-            .filter(unit => unit.getOwner() !== card.getOwner());
+            .filter(unit => !game.isAlly(unit.getOwner(), card.getOwner()));
         return this.lastTargets;
     }
 }
@@ -207,7 +222,7 @@ export class AllPlayers extends AllUnits {
     public getUnitTargets(card: Card, game: Game): Array<Unit> {
         this.lastTargets = [
             game.getPlayer(card.getOwner()),
-            game.getPlayer(game.getOtherPlayerNumber(card.getOwner()))
+            ...getOpposingPlayers(card, game)
         ];
         return this.lastTargets;
     }
@@ -223,7 +238,7 @@ export class Everyone extends AllUnits {
             .getBoard()
             .getAllUnits()
             .concat(game.getPlayer(card.getOwner()))
-            .concat(game.getPlayer(game.getOtherPlayerNumber(card.getOwner())));
+            .concat(getOpposingPlayers(card, game));
         return this.lastTargets;
     }
 }
@@ -237,8 +252,9 @@ export class Friends extends AllUnits {
         this.lastTargets = game
             .getBoard()
             .getAllUnits()
-            .filter(unit => unit.getOwner() === card.getOwner())
-            .concat(game.getPlayer(card.getOwner()));
+            .filter(unit => game.isAlly(unit.getOwner(), card.getOwner()))
+            .concat(game.getPlayer(card.getOwner()))
+            .concat(getAlliedPlayers(card, game));
         return this.lastTargets;
     }
 }
@@ -252,8 +268,8 @@ export class Enemies extends AllUnits {
         this.lastTargets = game
             .getBoard()
             .getAllUnits()
-            .filter(unit => unit.getOwner() !== card.getOwner())
-            .concat(game.getPlayer(game.getOtherPlayerNumber(card.getOwner())));
+            .filter(unit => !game.isAlly(unit.getOwner(), card.getOwner()))
+            .concat(getOpposingPlayers(card, game));
         return this.lastTargets;
     }
 }
@@ -27,7 +27,7 @@ export class FriendlyBiologicalUnits extends AllUnits {
             .getBoard()
             .getAllUnits()
             .filter(isBiological)
-            .filter(unit => unit.getOwner() === card.getOwner());
+            .filter(unit => game.isAlly(unit.getOwner(), card.getOwner()));
         return this.lastTargets;
     }
 }
@@ -56,7 +56,7 @@ export class FriendlyVehicleOrStructure extends Targeter {
             .filter(
                 unit =>
                     validTypes.has(unit.getUnitType()) &&
-                    unit.getOwner() === card.getOwner()
+                    game.isAlly(unit.getOwner(), card.getOwner())
             );
     }
     public getText() {
@@ -1,10 +1,11 @@
 import { Permanent } from '../../card-types/permanent';
 import { Targeter } from '../../targeter';
-import { Card } from 'app/game_model/card-types/card';
+import { Card, CardType } from 'app/game_model/card-types/card';
 import { Game } from 'app/game_model/game';
 
 export class AllEnchantments extends Targeter {
     protected static id = 'AllEnchantments';
+    protected static targetedCardTypes = new Set([CardType.Enchantment]);
     protected lastTargets: Array<Permanent> = [];
     public getText() {
         return 'all enchantments';
@@ -1,19 +1,28 @@
 import { Card } from '../../card-types/card';
 import { Game } from '../../game';
+import { properCase } from '../../strings';
 import { Targeter } from '../../targeter';
+import { MechanicConstructor } from '../mechanicConstructor';
+import { ParameterData, ParameterType } from '../parameters';
 
 export class UnitWithAbility extends Targeter {
     protected static id = 'UnitWithAbility';
-    constructor(private abilityId: string, private desc: string) {
+    protected static ParameterTypes = [
+        { name: 'Ability', type: ParameterType.Ability }
+    ];
+    constructor(private ability: MechanicConstructor) {
         super();
     }
+    public getParameterValues(): ParameterData[] {
+        return [this.ability.getId()];
+    }
     public getValidTargets(card: Card, game: Game) {
         return game
             .getBoard()
             .getAllUnits()
-            .filter(unit => unit.hasMechanicWithId(this.abilityId));
+            .filter(unit => unit.hasMechanicWithId(this.ability.getId()));
     }
     public getText() {
-        return `target ${this.desc} unit`;
+        return `target ${properCase(this.ability.getId())} unit`;
     }
 }
@@ -3,13 +3,19 @@ import { Game } from '../../game';
 import { Targeter } from '../../targeter';
 
 export class RenewalMCTargeter extends Targeter {
+    protected static id = 'RenewalMCTargeter';
+
     public getValidTargets(card: Card, game: Game) {
         const owner = game.getPlayer(card.getOwner());
         const threshold = owner.getPool().getOfType('Renewal') / 2;
         return game
             .getBoard()
-            .getPlayerUnits(game.getOtherPlayerNumber(card.getOwner()))
-            .filter(unit => unit.getCost().getNumeric() <= threshold);
+            .getAllUnits()
+            .filter(
+                unit =>
+                    !game.isAlly(unit.getOwner(), card.getOwner()) &&
+                    unit.getCost().getNumeric() <= threshold
+            );
     }
 
     public getText() {
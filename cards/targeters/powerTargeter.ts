@@ -2,13 +2,20 @@ import { Card } from '../../card-types/card';
 import { Game } from '../../game';
 import { Targeter } from '../../targeter';
 import { Unit } from '../../card-types/unit';
+import { ParameterData, ParameterType } from '../parameters';
 import { AllUnits } from './basicTargeter';
 
 export class LifeLessUnit extends Targeter {
     protected static id = 'LifeLessUnit';
+    protected static ParameterTypes = [
+        { name: 'Life', type: ParameterType.Integer }
+    ];
     constructor(private life: number) {
         super();
     }
+    public getParameterValues(): ParameterData[] {
+        return [this.life];
+    }
     public getValidTargets(card: Card, game: Game) {
         return game
             .getBoard()
@@ -22,9 +29,15 @@ export class LifeLessUnit extends Targeter {
 
 export class LifeLessUnits extends AllUnits {
     protected static id = 'LifeLessUnits';
+    protected static ParameterTypes = [
+        { name: 'Life', type: ParameterType.Integer }
+    ];
     constructor(private life: number) {
         super();
     }
+    public getParameterValues(): ParameterData[] {
+        return [this.life];
+    }
     public getTargets(card: Card, game: Game): Array<Unit> {
         this.lastTargets = game
             .getBoard()
@@ -1,6 +1,7 @@
 import { Card } from '../../card-types/card';
 import { Game } from '../../game';
 import { removeFirstCapital } from '../../strings';
+import { ParameterData, ParameterType } from '../parameters';
 import { Targeter } from '../../targeter';
 import { Unit, UnitType } from '../../card-types/unit';
 import { AllUnits } from './basicTargeter';
@@ -32,9 +33,15 @@ export class UnitsOfTypeAsTarget extends AllUnits {
 
 export class UnitsOfType extends AllUnits {
     protected static id = 'UnitsOfType';
+    protected static ParameterTypes = [
+        { name: 'type', type: ParameterType.UnitType }
+    ];
     constructor(private type: UnitType) {
         super();
     }
+    public getParameterValues(): ParameterData[] {
+        return [this.type];
+    }
     public getTargets(card: Card, game: Game): Array<Unit> {
         this.lastTargets = game
             .getBoard()
@@ -49,9 +56,15 @@ export class UnitsOfType extends AllUnits {
 
 export class FriendlyUnitsOfType extends AllUnits {
     protected static id = 'FriendlyUnitsOfType';
+    protected static ParameterTypes = [
+        { name: 'type', type: ParameterType.UnitType }
+    ];
     constructor(private type: UnitType) {
         super();
     }
+    public getParameterValues(): ParameterData[] {
+        return [this.type];
+    }
     public getTargets(card: Card, game: Game): Array<Unit> {
         this.lastTargets = game
             .getBoard()
@@ -59,7 +72,7 @@ export class FriendlyUnitsOfType extends AllUnits {
             .filter(
                 unit =>
                     unit.getUnitType() === this.type &&
-                    unit.getOwner() === card.getOwner()
+                    game.isAlly(unit.getOwner(), card.getOwner())
             );
         return this.lastTargets;
     }
@@ -72,9 +85,15 @@ export class FriendlyUnitsOfType extends AllUnits {
 
 export class UnitsNotOfType extends AllUnits {
     protected static id = 'UnitsNotOfType';
+    protected static ParameterTypes = [
+        { name: 'type', type: ParameterType.UnitType }
+    ];
     constructor(private type: UnitType) {
         super();
     }
+    public getParameterValues(): ParameterData[] {
+        return [this.type];
+    }
     public getTargets(card: Card, game: Game): Array<Unit> {
         this.lastTargets = game
             .getBoard()
@@ -89,9 +108,15 @@ export class UnitsNotOfType extends AllUnits {
 
 export class UnitOfType extends Targeter {
     protected static id = 'UnitOfType';
+    protected static ParameterTypes = [
+        { name: 'type', type: ParameterType.UnitType }
+    ];
     constructor(private type: UnitType) {
         super();
     }
+    public getParameterValues(): ParameterData[] {
+        return [this.type];
+    }
     public getValidTargets(card: Card, game: Game) {
         return game
             .getBoard()
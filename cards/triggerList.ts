@@ -1,27 +1,23 @@
 import * as affinity from './triggers/affinity';
 import * as basic from './triggers/basic';
+import * as bio from './triggers/bio';
 import * as death from './triggers/death';
+import * as draw from './triggers/draw';
 import * as lethalStrike from './triggers/lethalStrike';
 import * as owner from './triggers/owner';
 import * as periodic from './triggers/periodic';
 import * as serenity from './triggers/serenity';
+import { CardType } from '../card-types/card';
 import { Trigger } from '../trigger';
 import { values } from 'lodash';
+import { Registry } from './registry';
 
 export interface TriggerData {
     id: string;
 }
 
-class TriggerList {
-    private constructors: Map<string, TriggerConstructor> = new Map();
-    private constructorList: TriggerConstructor[] = [];
-
-    public addConstructors(...constructors: TriggerConstructor[]) {
-        for (const constructor of constructors) {
-            this.constructorList.push(constructor);
-            this.constructors.set(constructor.getId(), constructor);
-        }
-    }
+class TriggerList extends Registry<TriggerConstructor> {
+    protected kind = 'trigger';
 
     public buildInstance(data: TriggerData) {
         const constructor = this.constructors.get(data.id);
@@ -38,7 +34,9 @@ class TriggerList {
 }
 
 interface TriggerConstructor {
+    name: string;
     getId(): string;
+    isValidParent(cardType: CardType): boolean;
     new (): Trigger;
 }
 
@@ -50,7 +48,9 @@ const sources = [
     owner,
     lethalStrike,
     serenity,
-    affinity
+    affinity,
+    bio,
+    draw
 ];
 for (const source of sources) {
     triggerList.addConstructors(...(values(source) as TriggerConstructor[]));
@@ -1,4 +1,4 @@
-import { Card } from '../../card-types/card';
+import { Card, CardType } from '../../card-types/card';
 import { Game } from '../../game';
 import { EvalContext } from '../../mechanic';
 import { Trigger } from '../../trigger';
@@ -6,6 +6,7 @@ import { Unit } from '../../card-types/unit';
 
 export class Affinity extends Trigger {
     protected static id = 'Affinity';
+    protected static validCardTypes = new Set([CardType.Unit, CardType.Item]);
 
     private triggered = false;
 
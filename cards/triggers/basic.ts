@@ -7,6 +7,12 @@ import { Unit } from '../../card-types/unit';
 
 export class Play extends Trigger {
     protected static id = 'Play';
+    protected static validCardTypes = new Set([
+        CardType.Spell,
+        CardType.Unit,
+        CardType.Item,
+        CardType.Enchantment
+    ]);
 
     public getText(mechanicText: string) {
         return `Play: ${mechanicText}`;
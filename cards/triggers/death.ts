@@ -1,4 +1,4 @@
-import { Card } from '../../card-types/card';
+import { Card, CardType } from '../../card-types/card';
 import { Game } from '../../game';
 import { EvalContext } from '../../mechanic';
 import { removeFirstCapital } from '../../strings';
@@ -7,6 +7,8 @@ import { Unit } from '../../card-types/unit';
 
 export class DeathTrigger extends Trigger {
     protected static id = 'Death';
+    // Items give their mechanics to the unit they are attached to
+    protected static validCardTypes = new Set([CardType.Unit, CardType.Item]);
 
     public getText(mechanicText: string) {
         return `Death: ${mechanicText}`;
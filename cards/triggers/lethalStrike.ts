@@ -1,10 +1,11 @@
-import { Card } from '../../card-types/card';
+import { Card, CardType } from '../../card-types/card';
 import { Game } from '../../game';
 import { Trigger } from '../../trigger';
 import { Unit } from '../../card-types/unit';
 
 export class LethalStrike extends Trigger {
     protected static id = 'LethalStrike';
+    protected static validCardTypes = new Set([CardType.Unit, CardType.Item]);
 
     public getText(mechanicText: string) {
         return `Lethal Strike: ${mechanicText}`;
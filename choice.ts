@@ -0,0 +1,27 @@
+/**
+ * What prompted a card choice.
+ *
+ * Choices are saved in snapshots by their kind, so that the same choice
+ * (with the same effect) can be prompted again when the snapshot is restored.
+ */
+export enum ChoiceKind {
+    // Replacing cards in the opening hand or during a turn
+    Replace,
+    // Redrawing the opening hand with one fewer card
+    RedrawHand,
+    // Discarding because of a card
+    Discard,
+    // Discarding down to the hand limit, which ends the turn
+    EndOfTurnDiscard,
+    // Drawing cards found by searching a deck
+    DrawFromDeck,
+    // A choice prompted by a cards mechanic
+    Mechanic
+}
+
+export interface ChoiceSource {
+    kind: ChoiceKind;
+    // The card whose mechanic prompted the choice (only for mechanic choices)
+    cardId?: string;
+    mechanicId?: string;
+}
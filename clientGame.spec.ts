@@ -0,0 +1,185 @@
+import { ServerGame } from 'app/game_model/serverGame';
+import { ClientGame } from 'app/game_model/clientGame';
+import { standardFormat } from 'app/game_model/gameFormat';
+import { GameActionType } from 'app/game_model/events/gameAction';
+import { hiddenCardDataId } from 'app/game_model/events/redaction';
+import {
+    ResyncType,
+    SnapshotResync,
+    SyncEventType,
+    SyncTurnStart
+} from 'app/game_model/events/syncEvent';
+import { getStarterDecks } from 'app/game_model/scenarios/decks';
+import { Animator } from './animator';
+import { StateCheckpoint, StateMismatch } from './stateHash';
+
+const localPlayer = 0;
+
+const startServerGame = () => {
+    const decks = getStarterDecks();
+    const game = new ServerGame(
+        'game',
+        standardFormat,
+        [decks[0], decks[1]],
+        1234
+    );
+    game.startGame();
+    // Both players keep their opening hands
+    game.handleAction({ type: GameActionType.CardChoice, player: 0, choice: [] });
+    game.handleAction({ type: GameActionType.CardChoice, player: 1, choice: [] });
+    return game;
+};
+
+/** Sends the client every event it has not yet received */
+const sync = (server: ServerGame, client: ClientGame) => {
+    for (const event of server.getEventsFor(localPlayer)) {
+        client.syncServerEvent(localPlayer, event);
+    }
+};
+
+/** Sends the client the events it has not yet received, except the first of them */
+const syncDroppingEvent = (
+    server: ServerGame,
+    client: ClientGame,
+    firstMissed: number
+) => {
+    const events = server.getEventsFor(localPlayer).slice(firstMissed + 1);
+    for (const event of events) {
+        client.syncServerEvent(localPlayer, event);
+    }
+};
+
+/** Passes until a new turn starts */
+const passTurn = (server: ServerGame) => {
+    const turnNum = server.getTurnNumber();
+    while (server.getTurnNumber() === turnNum) {
+        server.handleAction({
+            type: GameActionType.Pass,
+            player: server.getActivePlayer()
+        });
+    }
+};
+
+describe('ClientGame', () => {
+    let server: ServerGame;
+    let client: ClientGame;
+
+    beforeEach(() => {
+        server = startServerGame();
+        client = new ClientGame('client', () => null, new Animator(0));
+        sync(server, client);
+    });
+
+    describe('state checkpoints', () => {
+        let checkpointMismatch: jasmine.Spy;
+        let stateMismatch: jasmine.Spy;
+
+        beforeEach(() => {
+            checkpointMismatch = spyOn(client, 'onCheckpointMismatch');
+            stateMismatch = spyOn(client, 'onStateMismatch');
+        });
+
+        it('should only be sent a hash of the servers state', () => {
+            passTurn(server);
+
+            const turnStart = server
+                .getPastEvents()
+                .find(
+                    event =>
+                        event.type === SyncEventType.TurnStart &&
+                        event.turnNum === server.getTurnNumber()
+                ) as SyncTurnStart;
+            expect(typeof turnStart.stateHash).toBe('string');
+            expect(Object.keys(turnStart)).not.toContain('checkpoint');
+        });
+
+        it('should agree with the server while it follows its events', () => {
+            passTurn(server);
+            passTurn(server);
+            sync(server, client);
+
+            expect(client.getTurnNumber()).toBe(server.getTurnNumber());
+            expect(checkpointMismatch).not.toHaveBeenCalled();
+        });
+
+        it('should ask for the servers state when its own differs', () => {
+            client.getPlayer(1).takeDamage(5, client.getPlayer(0));
+            passTurn(server);
+            sync(server, client);
+            const turnNum = server.getTurnNumber();
+
+            expect(checkpointMismatch).toHaveBeenCalledWith(turnNum);
+            expect(stateMismatch).not.toHaveBeenCalled();
+
+            const checkpoint = server.getCheckpoint(turnNum);
+            expect(checkpoint).not.toBeNull();
+            client.reportStateMismatch(checkpoint as StateCheckpoint);
+
+            const mismatch: StateMismatch = stateMismatch.calls.mostRecent()
+                .args[0];
+            expect(mismatch.turnNum).toBe(turnNum);
+            expect(mismatch.differences).toEqual([
+                `players[1].life: expected ${server
+                    .getPlayer(1)
+                    .getLife()} but was ${client.getPlayer(1).getLife()}`
+            ]);
+        });
+    });
+
+    describe('resync', () => {
+        let desync: jasmine.Spy;
+        let checkpointMismatch: jasmine.Spy;
+        let lastReceived: number;
+
+        beforeEach(() => {
+            desync = spyOn(client, 'onDesync');
+            checkpointMismatch = spyOn(client, 'onCheckpointMismatch');
+            spyOn(console, 'error');
+            lastReceived = server.getPastEvents().length - 1;
+            passTurn(server);
+            syncDroppingEvent(server, client, lastReceived + 1);
+        });
+
+        it('should report the last event received when one is missed', () => {
+            expect(desync).toHaveBeenCalledTimes(1);
+            expect(desync).toHaveBeenCalledWith(lastReceived);
+            expect(client.getTurnNumber()).not.toBe(server.getTurnNumber());
+        });
+
+        it('should catch up from the missed events', () => {
+            const resync = server.getResync(localPlayer, lastReceived);
+            expect(resync.type).toBe(ResyncType.Events);
+
+            client.resync(localPlayer, resync);
+            passTurn(server);
+            sync(server, client);
+
+            expect(client.getTurnNumber()).toBe(server.getTurnNumber());
+            expect(checkpointMismatch).not.toHaveBeenCalled();
+        });
+
+        it('should catch up from a snapshot when too many events were missed', () => {
+            server.setMaxReplayedEvents(1);
+            const resync = server.getResync(localPlayer, lastReceived);
+            expect(resync.type).toBe(ResyncType.Snapshot);
+            const snapshot = (resync as SnapshotResync).snapshot;
+            expect(
+                snapshot.players[1].hand.every(
+                    card => card.data === hiddenCardDataId
+                )
+            ).toBe(true);
+
+            client.resync(localPlayer, resync);
+            expect(client.getTurnNumber()).toBe(server.getTurnNumber());
+            expect(client.getPlayer(1).getHand().length).toBe(
+                server.getPlayer(1).getHand().length
+            );
+            passTurn(server);
+            sync(server, client);
+
+            expect(client.getTurnNumber()).toBe(server.getTurnNumber());
+            expect(checkpointMismatch).not.toHaveBeenCalled();
+            expect(desync).toHaveBeenCalledTimes(1);
+        });
+    });
+});
@@ -1,34 +1,58 @@
 import { Animator } from './animator';
-import { Card, CardPrototype, CardType } from './card-types/card';
+import { Card, CardPrototype, CardType, GameZone } from './card-types/card';
 import { cardList } from './cards/cardList';
+import { MechanicData, mechanicList } from './cards/mechanicList';
+import { Untargeted } from './cards/targeters/basicTargeter';
 import { Enchantment } from './card-types/enchantment';
 import { GameActionRunner, GameActionType } from './events/gameAction';
 import {
+    hiddenCardDataId,
+    isHiddenCard,
+    spectatorPlayerNumber
+} from './events/redaction';
+import {
+    GameResync,
     GameSyncEvent,
+    ResyncType,
     SyncAttackToggled,
     SyncBlock,
     SyncChoiceMade,
+    SyncClockUpdate,
     SyncDamageDistributed,
     SyncDraw,
+    SyncDrawOffered,
     SyncEnchantmentModified,
     SyncEnded,
     SyncEventSystem,
     SyncEventType,
     SyncFatigue,
+    SyncGameStart,
     SyncPhaseChange,
     SyncPlayCard,
+    SyncPlayerEliminated,
     SyncPlayResource,
+    SyncPriorityGained,
     SyncQueryResult,
-    SyncTurnStart
+    SyncTurnStart,
+    SyncUndone
 } from './events/syncEvent';
 import { Game, GamePhase } from './game';
 import { GameFormat, standardFormat } from './gameFormat';
+import { GameSnapshot } from './gameSnapshot';
 import { Item } from './card-types/item';
 import { Log } from './log';
 import { Player } from './player';
 import { ServerGame } from './serverGame';
 import { Unit } from './card-types/unit';
 import { Permanent } from './card-types/permanent';
+import { Resource } from './resource';
+import { Spell } from './card-types/spell';
+import {
+    createCheckpoint,
+    diffPublicStates,
+    StateCheckpoint,
+    StateMismatch
+} from './stateHash';
 
 export class ClientGame extends Game {
     private syncSystem = new SyncEventSystem(this);
@@ -40,6 +64,23 @@ export class ClientGame extends Game {
 
     protected onQueryResult: (cards: Card[]) => void = () => null;
     public onSync: () => void = () => null;
+    // Called with the number of the last event received when an event is missed, the server should respond with a resync
+    public onDesync: (lastEventNumber: number) => void = () => null;
+    private lastClockUpdate: SyncClockUpdate | null = null;
+    // The players who have offered or accepted a draw this turn
+    private drawOffers = new Set<number>();
+    // Set once an event is missed, events are ignored until the game is resynced
+    private awaitingResync = false;
+    // Checkpoints of our state and hashes of the servers, by turn number, that are waiting to be compared
+    private localCheckpoints = new Map<number, StateCheckpoint>();
+    private serverHashes = new Map<number, string>();
+    // Our checkpoints whose hash differed from the servers, kept until the server sends its state
+    private mismatchedCheckpoints = new Map<number, StateCheckpoint>();
+    // Called with the turn number when our state differs from the servers hash, the server should respond with its checkpoint
+    public onCheckpointMismatch: (turnNum: number) => void = () => null;
+    // Called with the differences once the server has sent its state for a checkpoint that did not match
+    public onStateMismatch: (mismatch: StateMismatch) => void = mismatch =>
+        console.error('Game state differs from the server', mismatch);
 
     constructor(
         name: string,
@@ -55,29 +96,20 @@ export class ClientGame extends Game {
         }
         this.addSyncHandlers();
 
-        this.players = [
-            new Player(
-                this,
-                [],
-                0,
-                this.format.initialResource[0],
-                this.format.initialLife[0]
-            ),
-            new Player(
-                this,
-                [],
-                1,
-                this.format.initialResource[1],
-                this.format.initialLife[1]
-            )
-        ];
-
-        for (let i = 0; i < this.players.length; i++) {
-            this.players[i].disableDraw();
-            for (let j = 0; j < this.format.initialDraw[i]; j++) {
-                this.players[i].drawCard();
-            }
+        for (let i = 0; i < this.format.playerCount; i++) {
+            this.players.push(
+                new Player(
+                    this,
+                    [],
+                    i,
+                    this.format.initialResource[i],
+                    this.format.initialLife[i]
+                )
+            );
         }
+
+        // Cards are drawn by the server, so draws only record how many cards we expect
+        this.players.forEach(player => player.disableDraw());
         this.addDeathHandlers();
     }
 
@@ -93,7 +125,7 @@ export class ClientGame extends Game {
         targets: Permanent[] = [],
         host: Unit | null = null
     ): boolean {
-        if (!this.isPlayerTurn(this.owningPlayer)) {
+        if (card.getOwner() !== this.owningPlayer) {
             return false;
         }
         if (!card.isPlayable(this)) {
@@ -146,14 +178,20 @@ export class ClientGame extends Game {
             }
             (card as Item).getHostTargeter().setTargets([host]);
         }
+        const hostId = host ? host.getId() : undefined;
         this.runGameAction(GameActionType.PlayCard, {
             type: GameActionType.PlayCard,
             player: this.owningPlayer,
             id: card.getId(),
             targetIds: targetIds,
-            hostId: host ? host.getId() : undefined
+            hostId: hostId
         });
-        this.playCard(this.players[card.getOwner()], card);
+        this.addCardToStack(
+            this.players[card.getOwner()],
+            card,
+            targetIds,
+            hostId
+        );
         return true;
     }
 
@@ -165,7 +203,7 @@ export class ClientGame extends Game {
      * @param order - The blockers in the order that damage should be applied to them
      */
     public setAttackOrder(attacker: Unit, order: Unit[]) {
-        if (!this.attackDamageOrder) {
+        if (!this.attackDamageOrder || this.isSpectating()) {
             return false;
         }
         this.attackDamageOrder.set(attacker.getId(), order);
@@ -179,6 +217,9 @@ export class ClientGame extends Game {
     }
 
     public canModifyEnchantment(enchantment: Enchantment): boolean {
+        if (this.isSpectating()) {
+            return false;
+        }
         return enchantment.canChangePower(
             this.getPlayer(this.owningPlayer),
             this
@@ -189,7 +230,7 @@ export class ClientGame extends Game {
         player: Player,
         enchantment: Enchantment
     ): boolean {
-        if (!enchantment.canChangePower(player, this)) {
+        if (this.isSpectating() || !enchantment.canChangePower(player, this)) {
             console.log('illegal attempt to midify enchantment');
             return false;
         }
@@ -210,21 +251,37 @@ export class ClientGame extends Game {
         );
     }
 
-    public declareAttacker(unit: Unit): boolean {
-        if (!this.canAttackWith(unit)) {
+    /**
+     * Toggles whether a unit is attacking.
+     *
+     * @param target - The player to attack, in games with more than one opponent. Every attacker attacks the same player.
+     */
+    public declareAttacker(unit: Unit, target?: number): boolean {
+        if (
+            !this.canAttackWith(unit) ||
+            (target !== undefined &&
+                !this.canAttackPlayer(this.owningPlayer, target))
+        ) {
             return false;
         }
+        if (target !== undefined) {
+            this.setDefendingPlayer(target);
+        }
         unit.toggleAttacking();
         this.runGameAction(GameActionType.ToggleAttack, {
             type: GameActionType.ToggleAttack,
             player: this.owningPlayer,
-            unitId: unit.getId()
+            unitId: unit.getId(),
+            target: target
         });
         return true;
     }
 
     public declareBlocker(blocker: Unit, attacker: Unit | null): boolean {
-        if (attacker && !blocker.canBlockTarget(attacker)) {
+        if (
+            this.isSpectating() ||
+            (attacker && !blocker.canBlockTarget(attacker))
+        ) {
             return false;
         }
         const attackerId = attacker ? attacker.getId() : null;
@@ -267,7 +324,7 @@ export class ClientGame extends Game {
     }
 
     public makeChoice(player: number, cards: Card[]): boolean {
-        if (!this.canMakeChoice(player, cards)) {
+        if (this.isSpectating() || !this.canMakeChoice(player, cards)) {
             return false;
         }
         this.makeDeferredChoice(player, cards);
@@ -282,6 +339,7 @@ export class ClientGame extends Game {
     public canPlayResource(): boolean {
         return (
             this.isPlayerTurn(this.owningPlayer) &&
+            this.phase !== GamePhase.Response &&
             this.players[this.owningPlayer].canPlayResource()
         );
     }
@@ -309,6 +367,9 @@ export class ClientGame extends Game {
     }
 
     public pass(): boolean {
+        if (this.isSpectating()) {
+            return false;
+        }
         if (
             this.players[this.owningPlayer].canPlayResource() &&
             this.wouldEndTurn()
@@ -322,11 +383,54 @@ export class ClientGame extends Game {
         return true;
     }
 
+    /** Offers the other players a draw, or accepts one if it has already been offered */
+    public offerDraw(): boolean {
+        if (this.isSpectating() || this.winner !== -1) {
+            return false;
+        }
+        if (this.hasDrawOffer()) {
+            this.runGameAction(GameActionType.AcceptDraw, {
+                type: GameActionType.AcceptDraw,
+                player: this.owningPlayer
+            });
+        } else {
+            this.runGameAction(GameActionType.OfferDraw, {
+                type: GameActionType.OfferDraw,
+                player: this.owningPlayer
+            });
+        }
+        return true;
+    }
+
+    /** Checks if another player has offered a draw this turn */
+    public hasDrawOffer() {
+        return Array.from(this.drawOffers).some(
+            player => player !== this.owningPlayer
+        );
+    }
+
     public setOwningPlayer(player: number) {
         this.owningPlayer = player;
     }
 
+    /**
+     * Makes this game follow a game that is being watched rather than played.
+     * It should then be synced with the events sent to a spectator of the ServerGame.
+     */
+    public spectate() {
+        this.owningPlayer = spectatorPlayerNumber;
+        if (this.log) {
+            this.log.setPlayer(spectatorPlayerNumber);
+        }
+    }
+
+    /** Checks if this game is being watched rather than played, spectators can not take any actions */
+    public isSpectating() {
+        return this.owningPlayer === spectatorPlayerNumber;
+    }
+
     public queryCards(
+        player: number,
         getCards: (game: ServerGame) => Card[],
         callback: (cards: Card[]) => void
     ) {
@@ -346,9 +450,7 @@ export class ClientGame extends Game {
     protected async resolveCombat() {
         const attackers = this.getAttackers();
         const blockers = this.getBlockers();
-        const defendingPlayer = this.players[
-            this.getOtherPlayerNumber(this.getCurrentPlayer().getPlayerNumber())
-        ];
+        const defendingPlayer = this.players[this.defendingPlayer];
 
         if (this.attackDamageOrder === null) {
             this.generateDamageDistribution();
@@ -455,6 +557,16 @@ export class ClientGame extends Game {
      * Syncs an event that happened on the server into the state of this game model
      */
     public syncServerEvent(localPlayerNumber: number, event: GameSyncEvent) {
+        if (this.awaitingResync) {
+            return;
+        }
+        if (
+            event.number !== undefined &&
+            event.number < this.nextExpectedEvent
+        ) {
+            // We already have this event
+            return;
+        }
         if (event.number !== this.nextExpectedEvent) {
             console.error(
                 'Event arrived out of order',
@@ -463,10 +575,14 @@ export class ClientGame extends Game {
                 this.nextExpectedEvent,
                 event
             );
+            this.awaitingResync = true;
+            this.onDesync(this.nextExpectedEvent - 1);
+            return;
         }
         this.events.push(event);
         try {
             this.syncSystem.handleEvent(localPlayerNumber, event);
+            this.resolvePlayerDeaths();
         } catch (e) {
             console.error(
                 'Error while syncing event',
@@ -481,22 +597,136 @@ export class ClientGame extends Game {
         this.nextExpectedEvent++;
     }
 
+    /**
+     * Catches up with the server after missing events.
+     *
+     * Missed events are synced as normal, a snapshot replaces the state of the game entirely.
+     */
+    public resync(localPlayerNumber: number, resync: GameResync) {
+        this.awaitingResync = false;
+        if (resync.type === ResyncType.Events) {
+            for (const event of resync.events) {
+                this.syncServerEvent(localPlayerNumber, event);
+            }
+            return;
+        }
+        this.restoreFromServer(resync.snapshot);
+        this.nextExpectedEvent = resync.eventCount;
+    }
+
+    /** Replaces the state of the game with a snapshot sent by the server */
+    private restoreFromServer(snapshot: GameSnapshot) {
+        this.queryData = null;
+        this.onQueryResult = () => null;
+        this.localCheckpoints.clear();
+        this.serverHashes.clear();
+        this.mismatchedCheckpoints.clear();
+        this.drawOffers.clear();
+        this.restore(snapshot);
+    }
+
+    public addGameEvent(event: GameSyncEvent) {
+        super.addGameEvent(event);
+        if (event.type === SyncEventType.TurnStart) {
+            this.localCheckpoints.set(event.turnNum, createCheckpoint(this));
+            this.compareCheckpoints(event.turnNum);
+        }
+    }
+
+    /** Compares the hash of our state to the servers once both have reached the start of a turn */
+    private compareCheckpoints(turnNum: number) {
+        const expectedHash = this.serverHashes.get(turnNum);
+        const actual = this.localCheckpoints.get(turnNum);
+        if (expectedHash === undefined || !actual) {
+            return;
+        }
+        this.serverHashes.delete(turnNum);
+        this.localCheckpoints.delete(turnNum);
+        if (expectedHash !== actual.hash) {
+            this.mismatchedCheckpoints.set(turnNum, actual);
+            this.onCheckpointMismatch(turnNum);
+        }
+    }
+
+    /** Reports how our state differed from the servers at a checkpoint, once the server has sent its state */
+    public reportStateMismatch(expected: StateCheckpoint) {
+        const turnNum = expected.state.turnNum;
+        const actual = this.mismatchedCheckpoints.get(turnNum);
+        if (!actual) {
+            return;
+        }
+        this.mismatchedCheckpoints.delete(turnNum);
+        this.onStateMismatch({
+            turnNum: turnNum,
+            expectedHash: expected.hash,
+            actualHash: actual.hash,
+            differences: diffPublicStates(expected.state, actual.state)
+        });
+    }
+
+    /** Checks if the game has missed an event and is waiting to be resynced */
+    public isAwaitingResync() {
+        return this.awaitingResync;
+    }
+
     private idsToCards(ids: Array<string>) {
         return ids.map(id => this.getCardById(id));
     }
 
+    /**
+     * Gets the card described by a prototype, creating it if it has not been seen before.
+     *
+     * Cards hidden from this player are represented by placeholders. Once the real card
+     * is sent the placeholder is replaced by it.
+     */
     public unpackCard(proto: CardPrototype): Card {
         const existingCard = this.cardPool.get(proto.id);
-        if (existingCard) {
+        if (
+            existingCard &&
+            (isHiddenCard(proto) ||
+                existingCard.getDataId() !== hiddenCardDataId)
+        ) {
             return existingCard;
         }
-        const card = cardList.getCard(proto.data);
+        const card = this.buildCard(proto);
+        if (existingCard) {
+            this.revealCard(existingCard, card);
+        }
+        this.cardPool.set(proto.id, card);
+        return card;
+    }
+
+    /** Builds a card, or a placeholder for it if it is hidden from this player */
+    protected buildCard(proto: CardPrototype): Card {
+        const card = isHiddenCard(proto)
+            ? new Spell(
+                  hiddenCardDataId,
+                  'Hidden Card',
+                  '',
+                  new Resource(0),
+                  new Untargeted(),
+                  []
+              )
+            : cardList.getCard(proto.data);
         card.setId(proto.id);
         card.setOwner(proto.owner);
-        this.cardPool.set(proto.id, card);
         return card;
     }
 
+    protected buildMechanic(data: MechanicData) {
+        return mechanicList.buildInstance(data, cardList);
+    }
+
+    /** Puts a revealed card in the place of the placeholder that stood in for it */
+    private revealCard(hidden: Card, revealed: Card) {
+        const hand = this.players[hidden.getOwner()].getHand();
+        const index = hand.indexOf(hidden);
+        if (index !== -1) {
+            revealed.setLocation(GameZone.Hand);
+            hand[index] = revealed;
+        }
+    }
+
     private addSyncHandlers() {
         this.syncSystem.addHandler(
             SyncEventType.AttackToggled,
@@ -523,6 +753,19 @@ export class ClientGame extends Game {
             this.syncQueryResult
         );
         this.syncSystem.addHandler(SyncEventType.Ended, this.syncEnded);
+        this.syncSystem.addHandler(
+            SyncEventType.ClockUpdate,
+            this.syncClockUpdate
+        );
+        this.syncSystem.addHandler(
+            SyncEventType.DrawOffered,
+            this.syncDrawOffered
+        );
+        this.syncSystem.addHandler(SyncEventType.Undone, this.syncUndone);
+        this.syncSystem.addHandler(
+            SyncEventType.GameStart,
+            this.syncGameStart
+        );
         this.syncSystem.addHandler(
             SyncEventType.EnchantmentModified,
             this.syncModifyEnchantment
@@ -531,6 +774,27 @@ export class ClientGame extends Game {
             SyncEventType.DamageDistributed,
             this.syncDamageDistribution
         );
+        this.syncSystem.addHandler(
+            SyncEventType.PriortyGained,
+            this.syncPriorityGained
+        );
+        this.syncSystem.addHandler(
+            SyncEventType.PlayerEliminated,
+            this.syncPlayerEliminated
+        );
+    }
+
+    private syncPriorityGained(
+        localPlayerNumber: number,
+        event: SyncPriorityGained
+    ) {
+        // Cards played are put on the stack when they are synced,
+        // so a response phase we have not yet entered must be an attack
+        if (this.phase !== GamePhase.Response) {
+            this.declareAttack();
+        } else {
+            this.priorityPlayer = event.player;
+        }
     }
 
     private syncDamageDistribution(
@@ -555,20 +819,15 @@ export class ClientGame extends Game {
         if (event.playerNo !== localPlayerNumber) {
             const player = this.players[event.playerNo];
             const card = this.unpackCard(event.played);
-            if (event.targetIds) {
-                card.getTargeter().setTargets(
-                    event.targetIds.map((id: string) => this.getUnitById(id))
-                );
-            }
-            if (card.getCardType() === CardType.Item) {
-                if (!event.hostId) {
-                    throw new Error('Play card event for an item lacks hostid');
-                }
-                (card as Item)
-                    .getHostTargeter()
-                    .setTargets([this.getUnitById(event.hostId)]);
+            if (card.getCardType() === CardType.Item && !event.hostId) {
+                throw new Error('Play card event for an item lacks hostid');
             }
-            this.playCard(player, card);
+            this.addCardToStack(
+                player,
+                card,
+                event.targetIds || [],
+                event.hostId
+            );
         }
         if (this.log) {
             this.log.addCardPlayed(event);
@@ -589,10 +848,9 @@ export class ClientGame extends Game {
     }
 
     public getExpectedCards() {
-        return (
-            Math.abs(this.players[0].getExpectedDraws()) +
-            Math.abs(this.players[1].getExpectedDraws())
-        );
+        return this.players
+            .map(player => Math.abs(player.getExpectedDraws()))
+            .reduce((a, b) => a + b, 0);
     }
 
     private syncDrawEvent(
@@ -614,6 +872,10 @@ export class ClientGame extends Game {
         }
     }
 
+    private syncGameStart(localPlayerNumber: number, event: SyncGameStart) {
+        this.dealOpeningHands(event.startingPlayer);
+    }
+
     private syncTurnStart(localPlayerNumber: number, event: SyncTurnStart) {
         if (this.turnNum === 1) {
             this.mulligan();
@@ -621,6 +883,13 @@ export class ClientGame extends Game {
             this.turnNum = event.turnNum;
             this.refresh();
         }
+        this.drawOffers.clear();
+        if (event.stateHash !== undefined) {
+            this.serverHashes.set(event.turnNum, event.stateHash);
+            this.compareCheckpoints(event.turnNum);
+        } else {
+            this.localCheckpoints.delete(event.turnNum);
+        }
     }
 
     private syncPlayResource(
@@ -637,10 +906,19 @@ export class ClientGame extends Game {
         event: SyncAttackToggled
     ) {
         if (event.player !== localPlayerNumber) {
+            this.setDefendingPlayer(event.target);
             this.getUnitById(event.unitId).toggleAttacking();
         }
     }
 
+    private syncPlayerEliminated(
+        localPlayerNumber: number,
+        event: SyncPlayerEliminated
+    ) {
+        // Players who die are eliminated as we simulate their death, but we only learn of quits from the server
+        this.eliminatePlayer(event.player, event.quit);
+    }
+
     private syncBlock(localPlayerNumber: number, event: SyncBlock) {
         if (event.player !== localPlayerNumber) {
             this.getUnitById(event.blockerId).setBlocking(event.blockedId);
@@ -648,10 +926,13 @@ export class ClientGame extends Game {
     }
 
     private syncPhaseChange(localPlayerNumber: number, event: SyncPhaseChange) {
-        if (event.phase === GamePhase.Block) {
-            this.gameEvents.playerAttacked.trigger({
-                target: this.getOtherPlayerNumber(this.getActivePlayer())
-            });
+        if (this.phase === GamePhase.Response) {
+            const returning = event.phase === this.lastPhase;
+            this.resolveStack();
+            if (returning) {
+                this.changePhase(event.phase);
+                return;
+            }
         }
         if (event.phase === GamePhase.Play2) {
             this.resolveCombat();
@@ -669,6 +950,7 @@ export class ClientGame extends Game {
 
     private syncChoiceMade(localPlayerNumber: number, event: SyncChoiceMade) {
         if (event.player !== localPlayerNumber) {
+            event.cards.forEach(proto => this.unpackCard(proto));
             this.makeDeferredChoice(
                 event.player,
                 this.idsToCards(event.choice)
@@ -689,6 +971,23 @@ export class ClientGame extends Game {
         this.setQueryResult(cards);
     }
 
+    private syncUndone(localPlayerNumber: number, event: SyncUndone) {
+        this.restoreFromServer(event.snapshot);
+    }
+
+    private syncDrawOffered(localPlayerNumber: number, event: SyncDrawOffered) {
+        this.drawOffers.add(event.player);
+    }
+
+    private syncClockUpdate(localPlayerNumber: number, event: SyncClockUpdate) {
+        this.lastClockUpdate = event;
+    }
+
+    /** Gets the time each player had left when the game last started waiting on someone, or null if the game is untimed */
+    public getLastClockUpdate() {
+        return this.lastClockUpdate;
+    }
+
     private syncEnded(localPlayerNumber: number, event: SyncEnded) {
         this.winner = event.winner;
     }
@@ -0,0 +1,21 @@
+/** A source of the current time in milliseconds. Games read the time from one so tests can control it. */
+export interface Clock {
+    now(): number;
+}
+
+export const systemClock: Clock = {
+    now: () => Date.now()
+};
+
+/** A clock that only moves when it is told to */
+export class ManualClock implements Clock {
+    constructor(private time: number = 0) {}
+
+    public now() {
+        return this.time;
+    }
+
+    public advance(milliseconds: number) {
+        this.time += milliseconds;
+    }
+}
@@ -0,0 +1,47 @@
+import { cardList } from './cards/cardList';
+import { Booster, Collection } from './collection';
+import { GameFormat } from './gameFormat';
+
+const getRarities = (cardIds: string[]) =>
+    cardIds.map(id => cardList.getCard(id).getRarity());
+
+describe('Booster', () => {
+    let format: GameFormat;
+
+    beforeEach(() => {
+        format = new GameFormat();
+    });
+
+    it('should only contain cards of rarities with a weight', () => {
+        format.rarityWeights = [0, 0, 0, 1];
+
+        const cards = new Booster(20, format).open();
+
+        expect(cards.length).toBe(20);
+        expect(getRarities(cards)).toEqual(Array(20).fill('Legendary'));
+    });
+
+    it('should never contain cards of rarities the format does not name', () => {
+        format.rarityNames = ['Common', 'Rare'];
+        format.rarityWeights = [1, 1];
+
+        const rarities = getRarities(new Booster(50, format).open());
+
+        expect(rarities).not.toContain('Epic');
+        expect(rarities).not.toContain('Legendary');
+    });
+});
+
+describe('Collection', () => {
+    it('should award cards of the rarities the format weights', () => {
+        const format = new GameFormat();
+        format.rarityWeights = [0, 0, 0, 1];
+
+        const awarded = new Collection().addReward(
+            { gold: 0, packs: 0, cards: 10 },
+            format
+        );
+
+        expect(getRarities(awarded)).toEqual(Array(10).fill('Legendary'));
+    });
+});
@@ -1,7 +1,8 @@
-import { random, sample } from 'lodash';
+import { random, sumBy } from 'lodash';
 import { Card } from './card-types/card';
 import { cardList } from './cards/cardList';
 import { DeckList } from './deckList';
+import { GameFormat, standardFormat } from './gameFormat';
 
 export interface SavedCollection {
     gold: number;
@@ -37,13 +38,18 @@ export class Collection {
         return reward;
     }
 
-    public addReward(reward: Rewards) {
+    /**
+     * Adds a reward to the collection, returning the ids of any cards it awarded.
+     *
+     * @param format - The format whose rarityWeights decide which cards are awarded
+     */
+    public addReward(reward: Rewards, format: GameFormat = standardFormat) {
         this.packs += reward.packs;
         this.gold += reward.gold;
         if (reward.cards) {
             const cardsAwarded = [];
             for (let i = 0; i < reward.cards; i++) {
-                const awarded = this.getRandomCardId();
+                const awarded = this.getRandomCardId(format);
                 cardsAwarded.push(awarded);
                 this.addCard(awarded, 1);
             }
@@ -199,23 +205,41 @@ export class Collection {
             );
     }
 
-    private getRandomCardId() {
-        const cardIds = cardList.getIds();
+    private getRandomCardId(format: GameFormat) {
+        return sampleByRarity(cardList.getCards(), format);
+    }
+}
 
-        return sample(cardIds) || '';
+/**
+ * Picks the id of a random card, weighted by the formats rarityWeights.
+ * Cards with a rarity the format doesn't name are never picked.
+ */
+function sampleByRarity(cards: Card[], format: GameFormat) {
+    const weight = (card: Card) =>
+        format.rarityWeights[format.rarityNames.indexOf(card.getRarity())] ||
+        0;
+    let roll = random(0, sumBy(cards, weight), true);
+    for (const card of cards) {
+        roll -= weight(card);
+        if (roll <= 0) {
+            return card.getDataId();
+        }
     }
+    return cards.length > 0 ? cards[cards.length - 1].getDataId() : '';
 }
 
 export class Booster {
-    constructor(private cardCount: number = 6) {}
+    constructor(
+        private cardCount: number = 6,
+        private format: GameFormat = standardFormat
+    ) {}
 
     public open() {
         const openedCards = Array<string>(this.cardCount);
-        const cardIds = cardList.getIds();
+        const cards = cardList.getCards();
 
         for (let i = 0; i < this.cardCount; i++) {
-            const drawn = sample(cardIds) || '';
-            openedCards[i] = drawn;
+            openedCards[i] = sampleByRarity(cards, this.format);
         }
         return openedCards;
     }
@@ -0,0 +1,83 @@
+import { Card } from './card-types/card';
+import { coreSet } from './cardSet';
+import { cardList } from './cards/cardList';
+import { DeckList } from './deckList';
+import { GameFormat } from './gameFormat';
+
+describe('DeckList', () => {
+    let format: GameFormat;
+    let deck: DeckList;
+
+    beforeEach(() => {
+        format = new GameFormat();
+        format.minDeckSize = 0;
+        deck = new DeckList(format);
+    });
+
+    describe('rarity limits', () => {
+        it('should limit the copies of a card by its rarity', () => {
+            format.cardsOfRarity = [Infinity, 3, 2, 1];
+            const elderDragon = cardList.getCard('ElderDragon');
+            const pikeman = cardList.getCard('Pikeman');
+
+            expect(elderDragon.getRarity()).toBe('Legendary');
+            expect(deck.getCopyLimit(elderDragon)).toBe(1);
+            expect(deck.getCopyLimit(pikeman)).toBe(format.maxCardsOfType);
+
+            deck.addCard(elderDragon);
+            expect(deck.canAddCard(elderDragon)).toBe(false);
+            expect(deck.isValid()).toBe(true);
+            const saved = deck.getSavable();
+            saved.records = [['ElderDragon', 2]];
+            expect(new DeckList(format, saved).isValid()).toBe(false);
+        });
+
+        it('should use the limits of the rarities the format names', () => {
+            format.rarityNames = ['Common', 'Uncommon', 'Legendary'];
+            format.cardsOfRarity = [Infinity, 2, 0];
+            const elderDragon = cardList.getCard('ElderDragon');
+
+            expect(deck.getCopyLimit(elderDragon)).toBe(0);
+            // Rare isn't a rarity in this format, so only the usual limit applies
+            expect(deck.getCopyLimit(cardList.getCard('King'))).toBe(
+                format.maxCardsOfType
+            );
+        });
+    });
+
+    describe('legal sets', () => {
+        let pikeman: Card;
+        let elderDragon: Card;
+
+        beforeEach(() => {
+            pikeman = cardList.getCard('Pikeman');
+            elderDragon = cardList.getCard('ElderDragon');
+        });
+
+        it('should allow cards from any set when the format names none', () => {
+            spyOn(cardList, 'getSetId').and.returnValue('rotated');
+
+            expect(deck.isLegal(pikeman)).toBe(true);
+        });
+
+        it('should only allow cards from the sets the format names', () => {
+            expect(cardList.getSetId('Pikeman')).toBe(coreSet.id);
+            format.legalSets = [coreSet.id];
+            spyOn(cardList, 'getSetId').and.callFake((id: string) =>
+                id === 'ElderDragon' ? 'rotated' : coreSet.id
+            );
+
+            expect(deck.isLegal(pikeman)).toBe(true);
+            expect(deck.isLegal(elderDragon)).toBe(false);
+            deck.addCard(elderDragon);
+            expect(deck.isValid()).toBe(false);
+        });
+
+        it('should not allow banned cards', () => {
+            format.bannedCards = ['ElderDragon'];
+
+            expect(deck.isLegal(pikeman)).toBe(true);
+            expect(deck.isLegal(elderDragon)).toBe(false);
+        });
+    });
+});
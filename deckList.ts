@@ -30,7 +30,7 @@ export class DeckList {
     public randomDeckWithColors(colors: Set<string>, collection: Collection) {
         this.clear();
         const validCards = collection.getCards().filter(card => {
-            return card.getCost().isInColors(colors);
+            return card.getCost().isInColors(colors) && this.isLegal(card);
         });
         for (let i = 0; i < this.format.minDeckSize; i++) {
             const card = sample(validCards);
@@ -38,10 +38,7 @@ export class DeckList {
                 throw new Error('Not enough cards to form random deck');
             }
             this.addCard(card);
-            if (
-                this.records.get(card.getDataId()) ===
-                this.format.cardsOfRarity[0]
-            ) {
+            if (!this.canAddCard(card)) {
                 remove(validCards, fact => fact === card);
             }
         }
@@ -141,10 +138,20 @@ export class DeckList {
         return this.records.get(card.getDataId()) || 0;
     }
 
+    /** Gets the most copies of a card the format allows in a deck, given its rarity */
+    public getCopyLimit(card: Card) {
+        const rarityLimit = this.format.cardsOfRarity[
+            this.format.rarityNames.indexOf(card.getRarity())
+        ];
+        return Math.min(
+            this.format.maxCardsOfType,
+            rarityLimit === undefined ? Infinity : rarityLimit
+        );
+    }
+
     public canAddCard(card: Card) {
         const currValue = this.records.get(card.getDataId()) || 0;
-        const limit = this.format.maxCardsOfType;
-        return currValue < limit;
+        return currValue < this.getCopyLimit(card);
     }
 
     public addCard(card: Card) {
@@ -164,12 +171,15 @@ export class DeckList {
             return false;
         }
         for (const record of this.getRecordList()) {
+            if (!this.isLegal(record.card)) {
+                return false;
+            }
             const max = cardPool
                 ? Math.min(
-                      this.format.maxCardsOfType,
+                      this.getCopyLimit(record.card),
                       cardPool.getCardCount(record.card)
                   )
-                : this.format.maxCardsOfType;
+                : this.getCopyLimit(record.card);
             if (record.number > max) {
                 return false;
             }
@@ -178,6 +188,19 @@ export class DeckList {
         return true;
     }
 
+    /** Checks if a card is allowed in decks of this format (it is from a legal set and not banned) */
+    public isLegal(card: Card) {
+        const id = card.getDataId();
+        const setId = cardList.getSetId(id);
+        if (
+            this.format.legalSets.length > 0 &&
+            (!setId || !this.format.legalSets.includes(setId))
+        ) {
+            return false;
+        }
+        return !this.format.bannedCards.includes(id);
+    }
+
     public removeCard(card: Card) {
         if (!this.records.has(card.getDataId())) {
             return;
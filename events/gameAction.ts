@@ -7,7 +7,47 @@ export enum GameActionType {
     DeclareBlocker,
     DistributeDamage,
     CardChoice,
-    Quit
+    Quit,
+    OfferDraw,
+    AcceptDraw
+}
+
+export enum ActionRejectionCode {
+    NotYourTurn,
+    WrongPhase,
+    CannotAfford,
+    InvalidTarget,
+    PendingChoice,
+    UnknownCard,
+    AlreadyPlayedResource,
+    UnknownResource,
+    InvalidChoice,
+    CannotAttack,
+    CannotBlock,
+    UnknownAction,
+    GameOver,
+    NoDrawOffer,
+    CannotUndo
+}
+
+/** Explains why an action was not carried out */
+export interface ActionRejection {
+    code: ActionRejectionCode;
+    message: string;
+}
+
+/** The result of handling an action, true if the action was carried out */
+export type ActionResult = true | ActionRejection;
+
+export function rejectAction(
+    code: ActionRejectionCode,
+    message: string
+): ActionRejection {
+    return { code, message };
+}
+
+export function isRejection(result: object | true): result is ActionRejection {
+    return result !== true && !Array.isArray(result) && 'code' in result;
 }
 
 interface GameActionBase {
@@ -16,23 +56,29 @@ interface GameActionBase {
 }
 
 export class GameActionSystem {
-    private handlers = new Map<GameActionType, (act: GameAction) => boolean>();
+    private handlers = new Map<
+        GameActionType,
+        (act: GameAction) => ActionResult
+    >();
 
     constructor(private parent: Object) {}
 
     public addHandler<T extends GameActionType>(
         type: T,
-        handler: ((action: GameActionFromType<T>) => boolean)
+        handler: ((action: GameActionFromType<T>) => ActionResult)
     ) {
         this.handlers.set(type, handler.bind(this.parent) as (
             act: GameAction
-        ) => boolean);
+        ) => ActionResult);
     }
 
-    public handleAction(action: GameAction) {
+    public handleAction(action: GameAction): ActionResult {
         const handler = this.handlers.get(action.type);
         if (!handler) {
-            return false;
+            return rejectAction(
+                ActionRejectionCode.UnknownAction,
+                `There is no handler for actions of type ${action.type}.`
+            );
         }
         return handler(action);
     }
@@ -47,7 +93,9 @@ export type GameAction =
     | DeclareBlockerAction
     | DistributeDamageAction
     | CardChoiceAction
-    | QuitAction;
+    | QuitAction
+    | OfferDrawAction
+    | AcceptDrawAction;
 
 type GameActionFromType<
     T extends GameActionType
@@ -67,6 +115,10 @@ type GameActionFromType<
     ? PlayResourceAction
     : T extends GameActionType.Quit
     ? QuitAction
+    : T extends GameActionType.OfferDraw
+    ? OfferDrawAction
+    : T extends GameActionType.AcceptDraw
+    ? AcceptDrawAction
     : ToggleAttackAction;
 
 export interface PlayResourceAction extends GameActionBase {
@@ -98,6 +150,8 @@ export interface ModifyEnchantmentAction extends GameActionBase {
 export interface ToggleAttackAction extends GameActionBase {
     readonly type: GameActionType.ToggleAttack;
     readonly unitId: string;
+    // The player to attack, defaults to the next player in turn order. Redirects every attacker this turn.
+    readonly target?: number;
 }
 
 export interface DeclareBlockerAction extends GameActionBase {
@@ -120,3 +174,11 @@ export interface CardChoiceAction extends GameActionBase {
 export interface QuitAction extends GameActionBase {
     readonly type: GameActionType.Quit;
 }
+
+export interface OfferDrawAction extends GameActionBase {
+    readonly type: GameActionType.OfferDraw;
+}
+
+export interface AcceptDrawAction extends GameActionBase {
+    readonly type: GameActionType.AcceptDraw;
+}
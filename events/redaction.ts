@@ -0,0 +1,102 @@
+import { CardPrototype, GameZone } from '../card-types/card';
+import { GameSnapshot } from '../gameSnapshot';
+import { GameSyncEvent, SyncDraw, SyncEventType } from './syncEvent';
+
+/** The number used in place of a player number for someone watching a game they are not playing in */
+export const spectatorPlayerNumber = -1;
+
+/** The data id sent in place of a card that the recipient of an event is not allowed to see */
+export const hiddenCardDataId = 'hidden';
+
+export function isHiddenCard(proto: CardPrototype) {
+    return proto.data === hiddenCardDataId;
+}
+
+/** Strips a card down to a placeholder that only reveals its id and owner */
+export function hideCard(proto: CardPrototype): CardPrototype {
+    return { id: proto.id, data: hiddenCardDataId, owner: proto.owner };
+}
+
+/**
+ * Produces the version of an event that a given player is allowed to see.
+ *
+ * Every card the isHidden callback reports as hidden from the viewer is replaced with a placeholder,
+ * except for query results, which are always shown in full to the player they were made for.
+ * Cards are checked in the zone recorded in the event, not the zone they are in now, so that
+ * a card that is played later is still hidden in the event that drew it.
+ *
+ * @param event - The event as it happened on the server
+ * @param viewer - The number of the player who will receive the event
+ * @param isHidden - Checks if a card in a given zone should be hidden from the viewer
+ */
+export function redactEvent(
+    event: GameSyncEvent,
+    viewer: number,
+    isHidden: (proto: CardPrototype, zone: GameZone) => boolean
+): GameSyncEvent {
+    const redact = (proto: CardPrototype, zone: GameZone) =>
+        isHidden(proto, zone) ? hideCard(proto) : proto;
+    switch (event.type) {
+        case SyncEventType.Draw:
+            if (event.fatigue) {
+                return event;
+            }
+            const drawn = event as SyncDraw;
+            // Cards drawn with a full hand are discarded face up
+            return {
+                ...drawn,
+                card: redact(
+                    drawn.card,
+                    drawn.discarded ? GameZone.Crypt : GameZone.Hand
+                )
+            };
+        case SyncEventType.ChoiceMade:
+            return {
+                ...event,
+                cards: event.cards.map((proto, i) =>
+                    redact(proto, event.zones[i])
+                )
+            };
+        case SyncEventType.QueryResult:
+            if (event.player === viewer) {
+                return event;
+            }
+            return {
+                ...event,
+                cards: event.cards.map((proto, i) =>
+                    redact(proto, event.zones[i])
+                )
+            };
+        case SyncEventType.Undone:
+            return {
+                ...event,
+                snapshot: redactSnapshot(event.snapshot, viewer)
+            };
+        default:
+            return event;
+    }
+}
+
+/**
+ * Produces the version of a snapshot that a given player is allowed to see.
+ *
+ * Other players hands are hidden. Decks are hidden from everyone (their order is secret even
+ * to their owner), except for the cards the viewer is currently choosing from.
+ */
+export function redactSnapshot(
+    snapshot: GameSnapshot,
+    viewer: number
+): GameSnapshot {
+    const choice = snapshot.choices[viewer];
+    const shown = new Set(choice ? choice.validCardIds : []);
+    return {
+        ...snapshot,
+        players: snapshot.players.map((player, number) => ({
+            ...player,
+            hand: number === viewer ? player.hand : player.hand.map(hideCard),
+            deck: player.deck.map(proto =>
+                shown.has(proto.id) ? proto : hideCard(proto)
+            )
+        }))
+    };
+}
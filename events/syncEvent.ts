@@ -1,5 +1,6 @@
-import { CardPrototype } from '../card-types/card';
+import { CardPrototype, GameZone } from '../card-types/card';
 import { GamePhase } from '../game';
+import { GameSnapshot } from '../gameSnapshot';
 import { Resource } from '../resource';
 
 export enum SyncEventType {
@@ -15,7 +16,12 @@ export enum SyncEventType {
     Ended,
     EnchantmentModified,
     DamageDistributed,
-    PriortyGained
+    PriortyGained,
+    PlayerEliminated,
+    ClockUpdate,
+    DrawOffered,
+    Undone,
+    GameStart
 }
 
 interface GameSyncEventBase {
@@ -37,7 +43,12 @@ export type GameSyncEvent =
     | SyncQueryResult
     | SyncEnded
     | SyncEnchantmentModified
-    | SyncDamageDistributed;
+    | SyncDamageDistributed
+    | SyncPlayerEliminated
+    | SyncClockUpdate
+    | SyncDrawOffered
+    | SyncUndone
+    | SyncGameStart;
 
 type SyncEventFromType<
     T extends SyncEventType
@@ -65,6 +76,16 @@ type SyncEventFromType<
     ? SyncPlayResource
     : T extends SyncEventType.QueryResult
     ? SyncQueryResult
+    : T extends SyncEventType.PlayerEliminated
+    ? SyncPlayerEliminated
+    : T extends SyncEventType.ClockUpdate
+    ? SyncClockUpdate
+    : T extends SyncEventType.DrawOffered
+    ? SyncDrawOffered
+    : T extends SyncEventType.Undone
+    ? SyncUndone
+    : T extends SyncEventType.GameStart
+    ? SyncGameStart
     : SyncTurnStart;
 
 export class SyncEventSystem {
@@ -103,12 +124,15 @@ export interface SyncAttackToggled extends GameSyncEventBase {
     readonly type: SyncEventType.AttackToggled;
     readonly player: number;
     readonly unitId: string;
+    readonly target: number;
 }
 
 export interface SyncTurnStart extends GameSyncEventBase {
     readonly type: SyncEventType.TurnStart;
     readonly turn: number;
     readonly turnNum: number;
+    // A hash of the servers public state as the turn started, attached periodically to detect desyncs
+    readonly stateHash?: string;
 }
 
 export interface SyncPhaseChange extends GameSyncEventBase {
@@ -156,16 +180,26 @@ export interface SyncChoiceMade extends GameSyncEventBase {
     readonly type: SyncEventType.ChoiceMade;
     readonly player: number;
     readonly choice: string[];
+    // The chosen cards, so cards that move out of a hidden zone can be revealed
+    readonly cards: CardPrototype[];
+    // The zone each chosen card was in once the choice took effect
+    readonly zones: GameZone[];
 }
 
 export interface SyncQueryResult extends GameSyncEventBase {
     readonly type: SyncEventType.QueryResult;
+    // The player the queried cards are shown to
+    readonly player: number;
     readonly cards: CardPrototype[];
+    // The zone each queried card was in when it was queried
+    readonly zones: GameZone[];
 }
 
 export interface SyncEnded extends GameSyncEventBase {
     readonly type: SyncEventType.Ended;
     readonly winner: number;
+    readonly winningTeam: number;
+    readonly draw: boolean;
     readonly quit: boolean;
 }
 
@@ -179,3 +213,62 @@ export interface SyncDamageDistributed extends GameSyncEventBase {
     readonly attackerID: string;
     readonly order: string[];
 }
+
+export interface SyncPlayerEliminated extends GameSyncEventBase {
+    readonly type: SyncEventType.PlayerEliminated;
+    readonly player: number;
+    readonly quit: boolean;
+}
+
+/** Sent when the game starts waiting on a player, with the time they have left */
+export interface SyncClockUpdate extends GameSyncEventBase {
+    readonly type: SyncEventType.ClockUpdate;
+    // The player the game is waiting on
+    readonly player: number;
+    readonly turnTimeRemaining: number;
+    // The game clock of every player
+    readonly clocksRemaining: number[];
+}
+
+/** Sent when a player offers or accepts a draw */
+export interface SyncDrawOffered extends GameSyncEventBase {
+    readonly type: SyncEventType.DrawOffered;
+    readonly player: number;
+}
+
+/** Sent when actions are undone, with the state the game returned to */
+export interface SyncUndone extends GameSyncEventBase {
+    readonly type: SyncEventType.Undone;
+    // The player who undid their action
+    readonly player: number;
+    readonly snapshot: GameSnapshot;
+}
+
+/** Sent before any other event, once the player who goes first has been chosen */
+export interface SyncGameStart extends GameSyncEventBase {
+    readonly type: SyncEventType.GameStart;
+    readonly startingPlayer: number;
+}
+
+// Resynchronization ------------------------------------------------------
+
+export enum ResyncType {
+    Events,
+    Snapshot
+}
+
+/** The events a client missed, to be synced in order */
+export interface EventResync {
+    readonly type: ResyncType.Events;
+    readonly events: GameSyncEvent[];
+}
+
+/** The current state of the game, to replace the state of a client that fell too far behind */
+export interface SnapshotResync {
+    readonly type: ResyncType.Snapshot;
+    readonly snapshot: GameSnapshot;
+    // The number of events that had happened when the snapshot was taken
+    readonly eventCount: number;
+}
+
+export type GameResync = EventResync | SnapshotResync;
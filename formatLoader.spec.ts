@@ -0,0 +1,146 @@
+import {
+    FatigueCurve,
+    freeForAllFormat,
+    GameFormat,
+    MulliganStyle
+} from './gameFormat';
+import {
+    formatSchema,
+    GameFormatData,
+    loadFormat,
+    loadFormatFromJson,
+    saveFormat,
+    validateFormatData
+} from './formatLoader';
+import { Resource } from './resource';
+
+describe('Format loader', () => {
+    it('should load a format saved with saveFormat unchanged', () => {
+        const format = freeForAllFormat(3);
+        format.name = 'Event Format';
+        format.mulliganStyle = MulliganStyle.DrawOneFewer;
+        format.fatigueCurve = FatigueCurve.Linear;
+        format.maxCardsOfType = Infinity;
+        format.rarityNames = ['Common', 'Rare', 'Mythic'];
+        format.cardsOfRarity = [Infinity, 3, 1];
+        format.rarityWeights = [10, 3, 1];
+        format.initialResource[2] = new Resource(1, 1, {
+            Synthesis: 0,
+            Growth: 1,
+            Decay: 0,
+            Renewal: 0
+        });
+        format.legalSets = ['core'];
+        format.bannedCards = ['ElderDragon'];
+
+        const saved = saveFormat(format);
+        const loaded = loadFormatFromJson(JSON.stringify(saved));
+
+        expect(saved.maxCardsOfType).toBeNull();
+        expect(validateFormatData(saved)).toEqual([]);
+        expect(saveFormat(loaded)).toEqual(saved);
+        expect(loaded.maxCardsOfType).toBe(Infinity);
+        expect(loaded.cardsOfRarity).toEqual([Infinity, 3, 1]);
+        expect(loaded.mulliganStyle).toBe(MulliganStyle.DrawOneFewer);
+        expect(loaded.initialResource[2]).toEqual(format.initialResource[2]);
+    });
+
+    it('should keep the defaults of settings that are left out', () => {
+        const format = loadFormat({ name: 'Short Games', boardSize: 5 });
+
+        expect(saveFormat(format)).toEqual({
+            ...saveFormat(new GameFormat()),
+            name: 'Short Games',
+            boardSize: 5
+        });
+    });
+
+    it('should list every problem with invalid data', () => {
+        const data = {
+            name: '',
+            boardSize: 0,
+            mulliganStyle: 'Sometimes',
+            initialLife: [20],
+            teams: [0, -1],
+            colour: 'blue'
+        };
+
+        expect(validateFormatData(data)).toEqual([
+            'name must be a non-empty string',
+            'colour is not a format setting',
+            'boardSize must be an integer of at least 1',
+            'mulliganStyle must be the name of a MulliganStyle',
+            'initialLife must have one entry for each of the 2 players',
+            'teams[1] must be a non-negative integer'
+        ]);
+        expect(() => loadFormat(data as GameFormatData)).toThrowError(
+            /^Invalid format: name must be a non-empty string; colour/
+        );
+    });
+
+    it('should reject data that is not an object', () => {
+        expect(validateFormatData([])).toEqual(['format must be an object']);
+        expect(validateFormatData(null)).toEqual(['format must be an object']);
+    });
+
+    it('should check the players of per player settings against playerCount', () => {
+        expect(validateFormatData({ name: 'Trios', playerCount: 3 })).toEqual([
+            'initialDraw must have one entry for each of the 3 players',
+            'initialLife must have one entry for each of the 3 players',
+            'initialResource must have one entry for each of the 3 players'
+        ]);
+        expect(validateFormatData(saveFormat(freeForAllFormat(3)))).toEqual([]);
+    });
+
+    it('should check resources', () => {
+        expect(
+            validateFormatData({
+                name: 'Rich',
+                initialResource: [{ maxEnergy: 1 }, { energy: 1, gold: 1 }]
+            })
+        ).toEqual([
+            'initialResource[0].energy is required',
+            'initialResource[1].gold is not a resource type'
+        ]);
+    });
+
+    it('should need rarity limits and weights for new rarity names', () => {
+        expect(
+            validateFormatData({
+                name: 'Mythic',
+                rarityNames: ['Common', 'Mythic']
+            })
+        ).toEqual([
+            'cardsOfRarity must be given when rarityNames is',
+            'rarityWeights must be given when rarityNames is'
+        ]);
+        expect(
+            validateFormatData({
+                name: 'Mythic',
+                rarityNames: ['Common', 'Mythic'],
+                cardsOfRarity: [null, 1],
+                rarityWeights: [3, -1, 1]
+            })
+        ).toEqual([
+            'rarityWeights must have one entry for each of the 2 rarities',
+            'rarityWeights[1] must be a non-negative number'
+        ]);
+    });
+
+    describe('schema', () => {
+        it('should describe every setting of a format', () => {
+            expect(Object.keys(formatSchema.properties).sort()).toEqual(
+                Object.keys(saveFormat(new GameFormat())).sort()
+            );
+        });
+
+        it('should name the values of enum settings', () => {
+            expect(formatSchema.properties.fatigueCurve.enum).toEqual([
+                'Exponential',
+                'Linear',
+                'Fixed',
+                'DeckOutLoses'
+            ]);
+        });
+    });
+});
@@ -0,0 +1,490 @@
+import { fromPairs } from 'lodash';
+import { FatigueCurve, GameFormat, MulliganStyle } from './gameFormat';
+import { Resource, ResourcePrototype } from './resource';
+
+/**
+ * The JSON representation of a GameFormat.
+ *
+ * Settings that are left out keep the value they have in a new GameFormat.
+ * Limits that can be unlimited use null, as JSON has no Infinity.
+ */
+export interface GameFormatData {
+    name: string;
+
+    // General Gameplay
+    playerCount?: number;
+    boardSize?: number;
+    maxTurns?: number;
+
+    // Hands and Decks
+    hardHandLimit?: number;
+    softHandLimit?: number;
+    mulliganStyle?: keyof typeof MulliganStyle;
+    mulliganLimit?: number;
+    fatigueCurve?: keyof typeof FatigueCurve;
+    fatigueDamage?: number;
+
+    // Teams
+    teams?: number[];
+    sharedLife?: boolean;
+
+    // Time Controls
+    turnTimeLimit?: number;
+    gameClock?: number;
+
+    // Turn Order
+    randomStartingPlayer?: boolean;
+    secondPlayerCards?: number;
+    secondPlayerEnergy?: number;
+    secondPlayerLife?: number;
+
+    // Starting Values
+    initialDraw?: number[];
+    initialLife?: number[];
+    initialResource?: ResourcePrototype[];
+
+    // Deckbuilding rules
+    minDeckSize?: number;
+    maxDeckSize?: number;
+    maxCardsOfType?: number | null;
+    rarityNames?: string[];
+    cardsOfRarity?: (number | null)[];
+    rarityWeights?: number[];
+    legalSets?: string[];
+    bannedCards?: string[];
+}
+
+type IntegerSetting =
+    | 'playerCount'
+    | 'boardSize'
+    | 'maxTurns'
+    | 'hardHandLimit'
+    | 'softHandLimit'
+    | 'mulliganLimit'
+    | 'fatigueDamage'
+    | 'turnTimeLimit'
+    | 'gameClock'
+    | 'secondPlayerCards'
+    | 'secondPlayerEnergy'
+    | 'secondPlayerLife'
+    | 'minDeckSize'
+    | 'maxDeckSize';
+type BooleanSetting = 'sharedLife' | 'randomStartingPlayer';
+type PerPlayerSetting = 'initialDraw' | 'initialLife' | 'initialResource';
+type IdListSetting = 'legalSets' | 'bannedCards';
+
+// Settings that are whole numbers, with the smallest value each may take
+const integerSettings: [IntegerSetting, number][] = [
+    ['playerCount', 1],
+    ['boardSize', 1],
+    ['maxTurns', 0],
+    ['hardHandLimit', 1],
+    ['softHandLimit', 0],
+    ['mulliganLimit', 0],
+    ['fatigueDamage', 0],
+    ['turnTimeLimit', 0],
+    ['gameClock', 0],
+    ['secondPlayerCards', 0],
+    ['secondPlayerEnergy', 0],
+    ['secondPlayerLife', 0],
+    ['minDeckSize', 0],
+    ['maxDeckSize', 1]
+];
+
+const booleanSettings: BooleanSetting[] = [
+    'sharedLife',
+    'randomStartingPlayer'
+];
+
+// Settings given once for each player
+const perPlayerSettings: PerPlayerSetting[] = [
+    'initialDraw',
+    'initialLife',
+    'initialResource'
+];
+
+const idListSettings: IdListSetting[] = ['legalSets', 'bannedCards'];
+
+const resourceKeys: (keyof ResourcePrototype)[] = [
+    'energy',
+    'maxEnergy',
+    'synthesis',
+    'growth',
+    'renewal',
+    'decay'
+];
+
+const enumNames = (enumObject: object) =>
+    Object.keys(enumObject).filter(key => isNaN(Number(key)));
+
+const nonNegativeInteger = { type: 'integer', minimum: 0 };
+const listOf = (items: object) => ({ type: 'array', items: items });
+
+/**
+ * A JSON Schema (draft 7) for GameFormatData, for editors and tools that write formats.
+ *
+ * It can not express rules between settings, such as lists needing one entry for each player,
+ * so data it accepts must still pass validateFormatData.
+ */
+export const formatSchema = {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    title: 'Game Format',
+    type: 'object',
+    required: ['name'],
+    additionalProperties: false,
+    properties: {
+        name: { type: 'string', minLength: 1 },
+        ...fromPairs(
+            integerSettings.map(([key, min]) => [
+                key,
+                { type: 'integer', minimum: min }
+            ])
+        ),
+        ...fromPairs(booleanSettings.map(key => [key, { type: 'boolean' }])),
+        mulliganStyle: { enum: enumNames(MulliganStyle) },
+        fatigueCurve: { enum: enumNames(FatigueCurve) },
+        teams: listOf(nonNegativeInteger),
+        initialDraw: listOf(nonNegativeInteger),
+        initialLife: listOf(nonNegativeInteger),
+        initialResource: listOf({
+            type: 'object',
+            required: ['energy'],
+            additionalProperties: false,
+            properties: fromPairs(
+                resourceKeys.map(key => [key, nonNegativeInteger])
+            )
+        }),
+        maxCardsOfType: { type: ['integer', 'null'], minimum: 0 },
+        rarityNames: listOf({ type: 'string' }),
+        cardsOfRarity: listOf({ type: ['integer', 'null'], minimum: 0 }),
+        rarityWeights: listOf({ type: 'number', minimum: 0 }),
+        ...fromPairs(
+            idListSettings.map(key => [key, listOf({ type: 'string' })])
+        )
+    }
+};
+
+const knownSettings = new Set(Object.keys(formatSchema.properties));
+
+interface JsonObject {
+    [key: string]: unknown;
+}
+
+const isObject = (value: unknown): value is JsonObject =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isInteger = (value: unknown, min: number): value is number =>
+    typeof value === 'number' && Number.isInteger(value) && value >= min;
+
+const isLimit = (value: unknown) => value === null || isInteger(value, 0);
+
+const isStringList = (value: unknown) =>
+    Array.isArray(value) && value.every(entry => typeof entry === 'string');
+
+const isEnumName = (enumObject: object, value: unknown) =>
+    typeof value === 'string' &&
+    typeof (enumObject as JsonObject)[value] === 'number';
+
+function validateResource(path: string, value: unknown, errors: string[]) {
+    if (!isObject(value)) {
+        errors.push(`${path} must be a resource object`);
+        return;
+    }
+    if (value.energy === undefined) {
+        errors.push(`${path}.energy is required`);
+    }
+    for (const key of Object.keys(value)) {
+        if (!(resourceKeys as string[]).includes(key)) {
+            errors.push(`${path}.${key} is not a resource type`);
+        } else if (!isInteger(value[key], 0)) {
+            errors.push(`${path}.${key} must be a non-negative integer`);
+        }
+    }
+}
+
+// Checks a list with one entry for each rarity, adding an error for each entry that isValid rejects
+function validateRarityList(
+    key: 'cardsOfRarity' | 'rarityWeights',
+    value: unknown,
+    rarityCount: number,
+    isValid: (entry: unknown) => boolean,
+    entryDescription: string,
+    errors: string[]
+) {
+    if (!Array.isArray(value)) {
+        errors.push(`${key} must be a list`);
+        return;
+    }
+    if (value.length !== rarityCount) {
+        errors.push(
+            `${key} must have one entry for each of the ${rarityCount} rarities`
+        );
+    }
+    value.forEach((entry: unknown, i: number) => {
+        if (!isValid(entry)) {
+            errors.push(`${key}[${i}] must be ${entryDescription}`);
+        }
+    });
+}
+
+/**
+ * Checks that some parsed JSON describes a valid format.
+ *
+ * Returns a list of problems, each starting with the path of the setting at fault.
+ * The list is empty if the data is valid.
+ */
+export function validateFormatData(data: unknown): string[] {
+    if (!isObject(data)) {
+        return ['format must be an object'];
+    }
+    const errors: string[] = [];
+    const defaults = new GameFormat();
+    // The value a setting will take, or NaN if the given value is not a number
+    const numberSetting = (key: IntegerSetting) => {
+        const value = data[key] === undefined ? defaults[key] : data[key];
+        return typeof value === 'number' ? value : NaN;
+    };
+
+    if (typeof data.name !== 'string' || data.name.length === 0) {
+        errors.push('name must be a non-empty string');
+    }
+    for (const key of Object.keys(data)) {
+        if (!knownSettings.has(key)) {
+            errors.push(`${key} is not a format setting`);
+        }
+    }
+
+    for (const [key, min] of integerSettings) {
+        if (data[key] !== undefined && !isInteger(data[key], min)) {
+            errors.push(`${key} must be an integer of at least ${min}`);
+        }
+    }
+    for (const key of booleanSettings) {
+        if (data[key] !== undefined && typeof data[key] !== 'boolean') {
+            errors.push(`${key} must be true or false`);
+        }
+    }
+    if (
+        data.mulliganStyle !== undefined &&
+        !isEnumName(MulliganStyle, data.mulliganStyle)
+    ) {
+        errors.push(`mulliganStyle must be the name of a MulliganStyle`);
+    }
+    if (
+        data.fatigueCurve !== undefined &&
+        !isEnumName(FatigueCurve, data.fatigueCurve)
+    ) {
+        errors.push(`fatigueCurve must be the name of a FatigueCurve`);
+    }
+
+    const playerCount = isInteger(data.playerCount, 1)
+        ? data.playerCount
+        : defaults.playerCount;
+    for (const key of perPlayerSettings) {
+        const value = data[key] === undefined ? defaults[key] : data[key];
+        if (!Array.isArray(value)) {
+            errors.push(`${key} must be a list`);
+            continue;
+        }
+        if (value.length !== playerCount) {
+            errors.push(
+                `${key} must have one entry for each of the ${playerCount} players`
+            );
+        }
+        if (data[key] === undefined) {
+            continue;
+        }
+        value.forEach((entry: unknown, i: number) => {
+            if (key === 'initialResource') {
+                validateResource(`${key}[${i}]`, entry, errors);
+            } else if (!isInteger(entry, 0)) {
+                errors.push(`${key}[${i}] must be a non-negative integer`);
+            }
+        });
+    }
+    if (data.teams !== undefined) {
+        const teams = data.teams;
+        if (!Array.isArray(teams)) {
+            errors.push('teams must be a list');
+        } else if (teams.length !== 0) {
+            if (teams.length !== playerCount) {
+                errors.push(
+                    `teams must be empty or have one entry for each of the ${playerCount} players`
+                );
+            }
+            teams.forEach((team: unknown, i: number) => {
+                if (!isInteger(team, 0)) {
+                    errors.push(`teams[${i}] must be a non-negative integer`);
+                }
+            });
+        }
+    }
+
+    if (numberSetting('softHandLimit') > numberSetting('hardHandLimit')) {
+        errors.push('softHandLimit must not be more than hardHandLimit');
+    }
+
+    if (numberSetting('minDeckSize') > numberSetting('maxDeckSize')) {
+        errors.push('minDeckSize must not be more than maxDeckSize');
+    }
+    if (data.maxCardsOfType !== undefined && !isLimit(data.maxCardsOfType)) {
+        errors.push('maxCardsOfType must be a non-negative integer or null');
+    }
+
+    if (data.rarityNames !== undefined && !isStringList(data.rarityNames)) {
+        errors.push('rarityNames must be a list of names');
+    }
+    const rarityCount = Array.isArray(data.rarityNames)
+        ? data.rarityNames.length
+        : defaults.rarityNames.length;
+    if (data.cardsOfRarity !== undefined) {
+        validateRarityList(
+            'cardsOfRarity',
+            data.cardsOfRarity,
+            rarityCount,
+            isLimit,
+            'a non-negative integer or null',
+            errors
+        );
+    } else if (rarityCount !== defaults.cardsOfRarity.length) {
+        errors.push('cardsOfRarity must be given when rarityNames is');
+    }
+    if (data.rarityWeights !== undefined) {
+        validateRarityList(
+            'rarityWeights',
+            data.rarityWeights,
+            rarityCount,
+            weight => typeof weight === 'number' && weight >= 0,
+            'a non-negative number',
+            errors
+        );
+    } else if (rarityCount !== defaults.rarityWeights.length) {
+        errors.push('rarityWeights must be given when rarityNames is');
+    }
+
+    for (const key of idListSettings) {
+        if (data[key] !== undefined && !isStringList(data[key])) {
+            errors.push(`${key} must be a list of ids`);
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * Builds a format from its JSON representation.
+ *
+ * Throws an error listing every problem with the data if it is not a valid format.
+ */
+export function loadFormat(data: GameFormatData): GameFormat {
+    const errors = validateFormatData(data);
+    if (errors.length > 0) {
+        throw new Error(`Invalid format: ${errors.join('; ')}`);
+    }
+
+    const format = new GameFormat();
+    format.name = data.name;
+    for (const [key] of integerSettings) {
+        const value = data[key];
+        if (value !== undefined) {
+            format[key] = value;
+        }
+    }
+    for (const key of booleanSettings) {
+        const value = data[key];
+        if (value !== undefined) {
+            format[key] = value;
+        }
+    }
+    if (data.mulliganStyle !== undefined) {
+        format.mulliganStyle = MulliganStyle[data.mulliganStyle];
+    }
+    if (data.fatigueCurve !== undefined) {
+        format.fatigueCurve = FatigueCurve[data.fatigueCurve];
+    }
+
+    if (data.teams) {
+        format.teams = [...data.teams];
+    }
+    if (data.initialDraw) {
+        format.initialDraw = [...data.initialDraw];
+    }
+    if (data.initialLife) {
+        format.initialLife = [...data.initialLife];
+    }
+    if (data.initialResource) {
+        format.initialResource = data.initialResource.map(
+            Resource.loadResource
+        );
+    }
+
+    if (data.maxCardsOfType !== undefined) {
+        format.maxCardsOfType =
+            data.maxCardsOfType === null ? Infinity : data.maxCardsOfType;
+    }
+    if (data.rarityNames) {
+        format.rarityNames = [...data.rarityNames];
+    }
+    if (data.cardsOfRarity) {
+        format.cardsOfRarity = data.cardsOfRarity.map(limit =>
+            limit === null ? Infinity : limit
+        );
+    }
+    if (data.rarityWeights) {
+        format.rarityWeights = [...data.rarityWeights];
+    }
+    for (const key of idListSettings) {
+        const ids = data[key];
+        if (ids) {
+            format[key] = [...ids];
+        }
+    }
+    return format;
+}
+
+/** Converts a format to its JSON representation, which loadFormat turns back into the same format */
+export function saveFormat(format: GameFormat): GameFormatData {
+    const limit = (value: number) => (value === Infinity ? null : value);
+    return {
+        name: format.name,
+        playerCount: format.playerCount,
+        boardSize: format.boardSize,
+        maxTurns: format.maxTurns,
+        hardHandLimit: format.hardHandLimit,
+        softHandLimit: format.softHandLimit,
+        mulliganStyle: MulliganStyle[
+            format.mulliganStyle
+        ] as keyof typeof MulliganStyle,
+        mulliganLimit: format.mulliganLimit,
+        fatigueCurve: FatigueCurve[
+            format.fatigueCurve
+        ] as keyof typeof FatigueCurve,
+        fatigueDamage: format.fatigueDamage,
+        teams: [...format.teams],
+        sharedLife: format.sharedLife,
+        turnTimeLimit: format.turnTimeLimit,
+        gameClock: format.gameClock,
+        randomStartingPlayer: format.randomStartingPlayer,
+        secondPlayerCards: format.secondPlayerCards,
+        secondPlayerEnergy: format.secondPlayerEnergy,
+        secondPlayerLife: format.secondPlayerLife,
+        initialDraw: [...format.initialDraw],
+        initialLife: [...format.initialLife],
+        initialResource: format.initialResource.map(resource =>
+            resource.getPrototype()
+        ),
+        minDeckSize: format.minDeckSize,
+        maxDeckSize: format.maxDeckSize,
+        maxCardsOfType: limit(format.maxCardsOfType),
+        rarityNames: [...format.rarityNames],
+        cardsOfRarity: format.cardsOfRarity.map(limit),
+        rarityWeights: [...format.rarityWeights],
+        legalSets: [...format.legalSets],
+        bannedCards: [...format.bannedCards]
+    };
+}
+
+/** Parses and loads a format from a JSON string */
+export function loadFormatFromJson(json: string): GameFormat {
+    return loadFormat(JSON.parse(json) as GameFormatData);
+}
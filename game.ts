@@ -1,18 +1,33 @@
 import { ChoiceHeuristic } from './ai/heuristics';
-import { knapsack } from './algorithms';
+import { combinations, knapsack, permutations } from './algorithms';
 import { Board } from './board';
-import { Card, CardType, GameZone } from './card-types/card';
-import { Enchantment } from './card-types/enchantment';
+import { Card, CardPrototype, CardType, GameZone } from './card-types/card';
+import { ChoiceKind, ChoiceSource } from './choice';
+import { MechanicData } from './cards/mechanicList';
+import { Enchantment, isEnchantment } from './card-types/enchantment';
+import { Item } from './card-types/item';
 import { GameEventSystem } from './events/eventSystems';
-import { QuitAction } from './events/gameAction';
+import {
+    ActionResult,
+    GameAction,
+    GameActionType,
+    PlayCardAction,
+    QuitAction
+} from './events/gameAction';
 import { GameSyncEvent, SyncEventType } from './events/syncEvent';
 import { GameFormat, standardFormat } from './gameFormat';
+import {
+    ChoiceSnapshot,
+    GameSnapshot,
+    PermanentSnapshot,
+    snapshotVersion
+} from './gameSnapshot';
 import { Log } from './log';
-import { EvalContext } from './mechanic';
+import { EvalContext, Mechanic } from './mechanic';
 import { Permanent } from './card-types/permanent';
 import { Player } from './player';
 import { ServerGame } from './serverGame';
-import { Unit } from './card-types/unit';
+import { isUnit, Unit } from './card-types/unit';
 
 export enum GamePhase {
     Play1,
@@ -23,12 +38,36 @@ export enum GamePhase {
     Response
 }
 
+/**
+ * An entry on the stack waiting to be resolved at the end of a response phase.
+ * Entries without a card represent a declared attack.
+ */
+export interface StackEntry {
+    player: number;
+    card: Card | null;
+    targetIds: string[];
+    hostId?: string;
+}
+
+/** The winner recorded for a game that ended in a draw */
+export const drawWinner = -2;
+
+export enum GameResult {
+    Win,
+    Loss,
+    Draw
+}
+
 export interface Choice {
     player: number;
     validCards: Set<Card>;
     min: number;
     max: number;
     callback: (cards: Card[]) => void;
+    message: string;
+    heuristic?: ChoiceHeuristic;
+    // What prompted the choice, choices without a source can't be saved in snapshots
+    source?: ChoiceSource;
 }
 
 export abstract class Game {
@@ -37,9 +76,15 @@ export abstract class Game {
     // A board containing units in play
     protected board: Board;
     // Where dead cards go
-    protected crypt: [Card[], Card[]];
+    protected crypt: Card[][];
     // The number of player whose turn it currently is
     protected turn = 0;
+    // The number of the player who took the first turn
+    protected startingPlayer = 0;
+    // The player being attacked this turn
+    protected defendingPlayer = 1;
+    // Players who have lost but whose opponents are still playing
+    protected eliminated = new Set<number>();
     // The number of turns that have passed from the games start
     protected turnNum: number;
     // The players playing the game
@@ -50,6 +95,10 @@ export abstract class Game {
     protected phase: GamePhase = GamePhase.Play1;
     // The previous phase (used to return from response phases)
     protected lastPhase: GamePhase = GamePhase.Play1;
+    // Cards and attacks waiting to resolve, the last entry resolves first
+    protected stack: StackEntry[] = [];
+    // The player who may act during a response phase (-1 outside of response phases)
+    protected priorityPlayer = -1;
     // A list of all events that have taken place this game and need to be sent to clients
     protected events: GameSyncEvent[];
     // A list of  units currently attacking
@@ -65,9 +114,11 @@ export abstract class Game {
     // A group of game logic events that are not connected to any individual unit
     public gameEvents: GameEventSystem;
     // Flag to tell us which player's choice we are waiting for (null if not waiting)
-    protected currentChoices: (Choice | null)[] = [null, null];
+    protected currentChoices: (Choice | null)[];
     protected log: Log | undefined;
     protected winner = -1;
+    // Players who have died since deaths were last resolved
+    protected dyingPlayers = new Set<number>();
     protected generatedCardId = 1;
     protected lastPlayedCardName = 'None';
     public lastCardsPlayed: string[] = [];
@@ -78,7 +129,8 @@ export abstract class Game {
         max: number,
         callback: ((cards: Card[]) => void) | null,
         message: string,
-        evaluator: ChoiceHeuristic
+        evaluator: ChoiceHeuristic,
+        source?: ChoiceSource
     ) => void;
     protected client = false;
     protected receivedChoice?: {
@@ -100,7 +152,12 @@ export abstract class Game {
         this.events = [];
         this.attackers = [];
         this.blockers = [];
-        this.crypt = [[], []];
+        this.crypt = [];
+        this.currentChoices = [];
+        for (let i = 0; i < this.format.playerCount; i++) {
+            this.crypt.push([]);
+            this.currentChoices.push(null);
+        }
         this.gameEvents = new GameEventSystem();
         this.promptCardChoice = this.deferChoice;
     }
@@ -108,62 +165,202 @@ export abstract class Game {
     protected addDeathHandlers() {
         this.players.forEach((player, number) => {
             player.getEvents().death.addEvent(undefined, params => {
-                this.endGame(this.getOtherPlayerNumber(number));
+                this.dyingPlayers.add(number);
                 return params;
             });
         });
+        if (this.format.sharedLife) {
+            this.players.forEach((player, number) => {
+                player.shareLifeWith(
+                    this.getAllies(number).map(ally => this.players[ally])
+                );
+            });
+        }
     }
 
     public getName() {
         return this.name;
     }
 
+    public getFormat() {
+        return this.format;
+    }
+
     public addGameEvent(event: GameSyncEvent) {
         event.number = this.events.length;
         this.events.push(event);
     }
 
+    /**
+     * Deals each player their opening hand, starting with the player who goes first,
+     * then gives the second player the formats compensation for not going first.
+     */
+    protected dealOpeningHands(startingPlayer: number) {
+        this.startingPlayer = startingPlayer;
+        this.turn = startingPlayer;
+        for (let seat = 0; seat < this.players.length; seat++) {
+            const player = this.players[
+                (startingPlayer + seat) % this.players.length
+            ];
+            player.drawCards(this.format.initialDraw[seat]);
+        }
+
+        const second = this.players[this.getNextPlayerNumber(startingPlayer)];
+        second.drawCards(this.format.secondPlayerCards);
+        second.addLife(this.format.secondPlayerLife);
+        second.addBonusEnergy(this.format.secondPlayerEnergy);
+    }
+
+    public getStartingPlayer() {
+        return this.startingPlayer;
+    }
+
     public mulligan() {
         for (const player of this.players) {
-            player.replace(this, 0, player.getHand().length);
+            player.mulligan(this);
         }
     }
 
     // Game End Logic -----------------------------------------------
+
+    /**
+     * Ends the game.
+     *
+     * @param winningPlayer - The player who won, or drawWinner if the game was drawn
+     */
     protected endGame(winningPlayer: number, quit: boolean = false) {
         if (this.winner !== -1) {
             return;
         }
+        const draw = winningPlayer === drawWinner;
         this.winner = winningPlayer;
         this.addGameEvent({
             type: SyncEventType.Ended,
             winner: winningPlayer,
+            winningTeam: draw ? drawWinner : this.getTeam(winningPlayer),
+            draw: draw,
             quit: quit
         });
     }
 
-    protected quit(action: QuitAction) {
-        this.endGame(this.getOtherPlayerNumber(action.player), true);
+    /**
+     * Eliminates every player who has died since this was last called.
+     *
+     * Deaths are resolved as each card on the stack resolves and at every phase and turn change,
+     * so the damage dealt by a single card or a single combat is simultaneous. Players who die
+     * together are eliminated together, so if every remaining player died the game ends in a draw.
+     */
+    public resolvePlayerDeaths() {
+        const dying = Array.from(this.dyingPlayers).filter(
+            player => !this.eliminated.has(player)
+        );
+        this.dyingPlayers.clear();
+        if (dying.length === 0 || this.winner !== -1) {
+            return;
+        }
+        const survivors = this.getRemainingPlayers().filter(
+            player => !dying.includes(player)
+        );
+        if (survivors.length === 0) {
+            this.endGame(drawWinner);
+            return;
+        }
+        for (const player of dying) {
+            this.eliminatePlayer(player);
+        }
+    }
+
+    protected quit(action: QuitAction): ActionResult {
+        this.eliminatePlayer(action.player, true);
         return true;
     }
 
+    /**
+     * Removes a player who has lost from the game.
+     *
+     * Once only one team remains it wins. Until then the eliminated players
+     * permanents leave the board and their turns are skipped.
+     */
+    protected eliminatePlayer(playerNumber: number, quit: boolean = false) {
+        if (this.winner !== -1 || this.eliminated.has(playerNumber)) {
+            return;
+        }
+        this.eliminated.add(playerNumber);
+        const remaining = this.getRemainingPlayers();
+        if (remaining.every(other => this.isAlly(other, remaining[0]))) {
+            this.endGame(remaining[0], quit);
+            return;
+        }
+        this.addGameEvent({
+            type: SyncEventType.PlayerEliminated,
+            player: playerNumber,
+            quit: quit
+        });
+        this.currentChoices[playerNumber] = null;
+        for (const permanent of [
+            ...this.board.getPlayerPermanents(playerNumber)
+        ]) {
+            this.removePermanent(permanent);
+        }
+        if (this.defendingPlayer === playerNumber) {
+            this.defendingPlayer = this.getNextOpponent(this.turn);
+        }
+    }
+
+    public isEliminated(playerNumber: number) {
+        return this.eliminated.has(playerNumber);
+    }
+
+    /** Gets the numbers of every player who has not been eliminated */
+    public getRemainingPlayers() {
+        return this.players
+            .map(player => player.getPlayerNumber())
+            .filter(playerNumber => !this.eliminated.has(playerNumber));
+    }
+
     /**
      *
      * Returns the number of the player who has won the game.
      * If it is still in progress it will return -1;
+     * If it ended in a draw it will return drawWinner.
      *
      */
     public getWinner() {
         return this.winner;
     }
 
+    /** Returns the team of the player who has won the game, or -1 if it is still in progress (drawWinner if it was drawn) */
+    public getWinningTeam() {
+        return this.winner < 0 ? this.winner : this.getTeam(this.winner);
+    }
+
+    public isDraw() {
+        return this.winner === drawWinner;
+    }
+
+    /** Gets how the game ended for a player, or null if it is still in progress */
+    public getResult(player: number): GameResult | null {
+        if (this.winner === -1) {
+            return null;
+        }
+        if (this.isDraw()) {
+            return GameResult.Draw;
+        }
+        return this.isAlly(player, this.winner)
+            ? GameResult.Win
+            : GameResult.Loss;
+    }
+
     // Player choice =--------------------------------------------------------
     public deferChoice(
         player: number,
         choices: Card[],
         min: number,
         max: number,
-        callback: ((cards: Card[]) => void) | null
+        callback: ((cards: Card[]) => void) | null,
+        message: string = '',
+        heuristic?: ChoiceHeuristic,
+        source?: ChoiceSource
     ) {
         if (!callback) {
             return;
@@ -178,10 +375,42 @@ export abstract class Game {
             validCards: new Set(choices),
             min: min,
             max: max,
-            callback: callback
+            callback: callback,
+            message: message,
+            heuristic: heuristic,
+            source: source
         };
     }
 
+    /**
+     * Prompts the owner of a card to make a choice for one of the cards mechanics.
+     * The chosen cards are passed to the mechanics resolveChoice() method.
+     */
+    public promptMechanicChoice(
+        card: Card,
+        mechanic: Mechanic,
+        choices: Card[],
+        min: number,
+        max: number,
+        message: string,
+        heuristic: ChoiceHeuristic
+    ) {
+        this.promptCardChoice(
+            card.getOwner(),
+            choices,
+            min,
+            max,
+            chosen => mechanic.resolveChoice(card, this, chosen),
+            message,
+            heuristic,
+            {
+                kind: ChoiceKind.Mechanic,
+                cardId: card.getId(),
+                mechanicId: mechanic.getId()
+            }
+        );
+    }
+
     protected makeDeferredChoice(player: number, cards: Card[]) {
         const currentChoice = this.currentChoices[player];
         if (currentChoice !== null) {
@@ -208,6 +437,7 @@ export abstract class Game {
     // Server Query Logic ----------------------------------------------
 
     public abstract queryCards(
+        player: number,
         getCards: (game: ServerGame) => Card[],
         callback: (cards: Card[]) => void
     ): void;
@@ -219,6 +449,34 @@ export abstract class Game {
         player.playCard(this, card);
     }
 
+    /**
+     * Plays a card from a player's hand onto the stack.
+     *
+     * The card is paid for immediately, but it only takes effect once the
+     * response phase it opens has closed. Any instants played in response resolve first.
+     */
+    public addCardToStack(
+        player: Player,
+        card: Card,
+        targetIds: string[],
+        hostId?: string
+    ) {
+        this.lastPlayedCardName = card.getName();
+        this.lastCardsPlayed.push(card.getName());
+        player.removeCardFromHand(card);
+        player.reduceResource(card.getCost());
+        card.setLocation(GameZone.Stack);
+        this.stack.push({
+            player: player.getPlayerNumber(),
+            card: card,
+            targetIds: targetIds,
+            hostId: hostId
+        });
+        this.openResponseWindow(
+            this.getNextPlayerNumber(player.getPlayerNumber())
+        );
+    }
+
     public playGeneratedUnit(player: Player | number, card: Card) {
         if (typeof player === 'number') {
             player = this.getPlayer(player);
@@ -241,10 +499,15 @@ export abstract class Game {
         player.playCard(this, card, true);
     }
 
+    public canPlayCardNow(card: Card) {
+        if (this.phase === GamePhase.Response) {
+            return this.priorityPlayer === card.getOwner() && card.isInstant();
+        }
+        return this.isPlayerTurn(card.getOwner()) && this.isPlayPhase();
+    }
+
     public canTakeAction() {
-        return (
-            this.currentChoices[0] === null && this.currentChoices[1] === null
-        );
+        return this.currentChoices.every(choice => choice === null);
     }
 
     // Combat -------------------------------------------------------------
@@ -267,7 +530,7 @@ export abstract class Game {
 
     public getBlockers() {
         return this.board
-            .getPlayerUnits(this.getNonturnPlayer())
+            .getPlayerUnits(this.defendingPlayer)
             .filter(unit => unit.getBlockedUnitId());
     }
 
@@ -356,9 +619,7 @@ export abstract class Game {
 
     protected resolveCombat() {
         const attackers = this.getAttackers();
-        const defendingPlayer = this.players[
-            this.getOtherPlayerNumber(this.getCurrentPlayer().getPlayerNumber())
-        ];
+        const defendingPlayer = this.players[this.defendingPlayer];
 
         if (this.attackDamageOrder === null) {
             this.generateDamageDistribution();
@@ -409,7 +670,7 @@ export abstract class Game {
 
     protected blockersExist() {
         const potentialBlockers = this.board.getPlayerUnits(
-            this.getNonturnPlayer()
+            this.defendingPlayer
         );
         const attackers = this.board
             .getPlayerUnits(this.getCurrentPlayer().getPlayerNumber())
@@ -433,9 +694,559 @@ export abstract class Game {
         return this.events;
     }
 
+    // Priority and Stack Logic ------------------------------------------------------
+
+    protected openResponseWindow(player: number) {
+        if (this.phase !== GamePhase.Response) {
+            this.lastPhase = this.phase;
+            this.phase = GamePhase.Response;
+        }
+        this.priorityPlayer = player;
+        this.addGameEvent({
+            type: SyncEventType.PriortyGained,
+            player: player
+        });
+    }
+
+    protected declareAttack() {
+        this.gameEvents.playerAttacked.trigger({
+            target: this.defendingPlayer
+        });
+        this.stack.push({
+            player: this.turn,
+            card: null,
+            targetIds: []
+        });
+        this.openResponseWindow(this.getNextPlayerNumber(this.turn));
+    }
+
+    /**
+     * Resolves every entry on the stack, last in first out, and returns to the
+     * phase the response phase interrupted.
+     *
+     * Returns true if an attack declaration was on the stack.
+     */
+    protected resolveStack() {
+        this.phase = this.lastPhase;
+        this.priorityPlayer = -1;
+        let attackDeclared = false;
+        while (this.stack.length > 0) {
+            const entry = this.stack.pop() as StackEntry;
+            if (entry.card) {
+                this.resolveStackEntry(entry.card, entry);
+                this.resolvePlayerDeaths();
+                if (this.winner !== -1) {
+                    return false;
+                }
+            } else {
+                attackDeclared = true;
+            }
+        }
+        return attackDeclared;
+    }
+
+    private resolveStackEntry(card: Card, entry: StackEntry) {
+        const permanents = this.board.getAllPermanents();
+        card.getTargeter().setTargets(
+            permanents.filter(perm => entry.targetIds.includes(perm.getId()))
+        );
+        let hostIsValid = true;
+        if (card.getCardType() === CardType.Item) {
+            const item = card as Item;
+            item.getHostTargeter().setTargets(
+                permanents.filter(perm => perm.getId() === entry.hostId)
+            );
+            hostIsValid = item.getHostTargeter().targetsAreValid(card, this);
+        }
+
+        // Cards whose targets are gone fizzle
+        if (!hostIsValid || !card.getTargeter().targetsAreValid(card, this)) {
+            this.addToCrypt(card);
+            return;
+        }
+        card.play(this);
+    }
+
+    public getStack() {
+        return this.stack;
+    }
+
+    public getPriorityPlayer() {
+        return this.priorityPlayer;
+    }
+
+    // Legal Actions ---------------------------------------------------------------
+
+    /**
+     * Lists every action the given player could legally take in the current state.
+     *
+     * Quitting is always legal, so it is not included.
+     */
+    public getLegalActions(player: number): GameAction[] {
+        if (this.winner !== -1 || this.eliminated.has(player)) {
+            return [];
+        }
+        if (!this.canTakeAction()) {
+            return this.getLegalChoices(player);
+        }
+        const actions: GameAction[] = [];
+        if (this.isActivePlayer(player)) {
+            actions.push({ type: GameActionType.Pass, player: player });
+        }
+        if (
+            this.isPlayerTurn(player) &&
+            this.phase !== GamePhase.Response &&
+            this.players[player].canPlayResource()
+        ) {
+            for (const resourceType of Array.from(
+                this.format.basicResources.keys()
+            )) {
+                actions.push({
+                    type: GameActionType.PlayResource,
+                    player: player,
+                    resourceType: resourceType
+                });
+            }
+        }
+        for (const card of this.players[player].getHand()) {
+            actions.push(...this.getLegalPlays(player, card));
+        }
+        if (this.isPlayerTurn(player)) {
+            for (const enchantment of this.board.getAllEnchantments()) {
+                if (enchantment.canChangePower(this.players[player], this)) {
+                    actions.push({
+                        type: GameActionType.ModifyEnchantment,
+                        player: player,
+                        enchantmentId: enchantment.getId()
+                    });
+                }
+            }
+        }
+        if (this.isPlayerTurn(player) && this.phase === GamePhase.Play1) {
+            // Only offer a choice of target when there is more than one opponent
+            const targets: (number | undefined)[] =
+                this.getOpponents(player).length > 1
+                    ? this.getOpponents(player)
+                    : [undefined];
+            for (const unit of this.board.getPlayerUnits(player)) {
+                if (!unit.canAttack()) {
+                    continue;
+                }
+                for (const target of targets) {
+                    actions.push({
+                        type: GameActionType.ToggleAttack,
+                        player: player,
+                        unitId: unit.getId(),
+                        target: target
+                    });
+                }
+            }
+        }
+        if (
+            this.defendingPlayer === player &&
+            this.phase === GamePhase.Block
+        ) {
+            actions.push(...this.getLegalBlocks(player));
+        }
+        if (
+            this.isPlayerTurn(player) &&
+            this.phase === GamePhase.DamageDistribution
+        ) {
+            actions.push(...this.getLegalDamageDistributions(player));
+        }
+        return actions;
+    }
+
+    /** Checks if a choice must be made with either every one of its cards or none of them, as when redrawing a hand */
+    protected isAllOrNoneChoice(choice: Choice) {
+        return (
+            choice.source !== undefined &&
+            choice.source.kind === ChoiceKind.RedrawHand
+        );
+    }
+
+    private getLegalChoices(player: number): GameAction[] {
+        const choice = this.currentChoices[player];
+        if (!choice) {
+            return [];
+        }
+        const validCards = Array.from(choice.validCards);
+        const options =
+            this.isAllOrNoneChoice(choice) && validCards.length > 0
+                ? [[], validCards]
+                : combinations(
+                      validCards,
+                      Math.min(validCards.length, choice.min),
+                      choice.max
+                  );
+        return options.map(cards => ({
+            type: GameActionType.CardChoice as GameActionType.CardChoice,
+            player: player,
+            choice: cards.map(card => card.getId())
+        }));
+    }
+
+    /** Lists every combination of targets (and hosts, for items) a card could be played with */
+    private getLegalPlays(player: number, card: Card): PlayCardAction[] {
+        if (!card.isPlayable(this)) {
+            return [];
+        }
+        const targeter = card.getTargeter();
+        const targetOptions: string[][] = [];
+        if (!targeter.needsInput() || targeter.isOptional()) {
+            targetOptions.push([]);
+        }
+        if (targeter.needsInput()) {
+            for (const target of targeter.getValidTargets(card, this)) {
+                targetOptions.push([target.getId()]);
+            }
+        }
+
+        const hostOptions: (string | undefined)[] =
+            card.getCardType() === CardType.Item
+                ? (card as Item)
+                      .getHostTargeter()
+                      .getValidTargets(card, this)
+                      .map(host => host.getId())
+                : [undefined];
+
+        const plays: PlayCardAction[] = [];
+        for (const targetIds of targetOptions) {
+            for (const hostId of hostOptions) {
+                plays.push({
+                    type: GameActionType.PlayCard,
+                    player: player,
+                    id: card.getId(),
+                    targetIds: targetIds,
+                    hostId: hostId
+                });
+            }
+        }
+        return plays;
+    }
+
+    private getLegalBlocks(player: number): GameAction[] {
+        const actions: GameAction[] = [];
+        const attackers = this.getAttackers();
+        for (const blocker of this.board.getPlayerUnits(player)) {
+            actions.push({
+                type: GameActionType.DeclareBlocker,
+                player: player,
+                blockerId: blocker.getId(),
+                blockedId: null
+            });
+            for (const attacker of attackers) {
+                if (blocker.canBlockTarget(attacker)) {
+                    actions.push({
+                        type: GameActionType.DeclareBlocker,
+                        player: player,
+                        blockerId: blocker.getId(),
+                        blockedId: attacker.getId()
+                    });
+                }
+            }
+        }
+        return actions;
+    }
+
+    private getLegalDamageDistributions(player: number): GameAction[] {
+        const actions: GameAction[] = [];
+        if (!this.attackDamageOrder) {
+            return actions;
+        }
+        for (const [attackerId, blockers] of Array.from(
+            this.attackDamageOrder.entries()
+        )) {
+            for (const order of permutations(blockers)) {
+                actions.push({
+                    type: GameActionType.DistributeDamage,
+                    player: player,
+                    attackerID: attackerId,
+                    order: order.map(blocker => blocker.getId())
+                });
+            }
+        }
+        return actions;
+    }
+
+    // Snapshots ------------------------------------------------------------------
+
+    /**
+     * Saves the state of the game as a JSON compatible object that can be loaded with restore().
+     *
+     * Pending choices are saved by what prompted them, so choices without a source can't be saved.
+     */
+    public snapshot(): GameSnapshot {
+        return {
+            version: snapshotVersion,
+            turn: this.turn,
+            turnNum: this.turnNum,
+            startingPlayer: this.startingPlayer,
+            phase: this.phase,
+            lastPhase: this.lastPhase,
+            priorityPlayer: this.priorityPlayer,
+            winner: this.winner,
+            generatedCardId: this.generatedCardId,
+            players: this.players.map(player => player.snapshot()),
+            defendingPlayer: this.defendingPlayer,
+            eliminated: Array.from(this.eliminated),
+            crypts: this.crypt.map(crypt => crypt.map(card => card.getPrototype())),
+            board: this.board
+                .getAllPermanents()
+                .map(permanent => this.snapshotPermanent(permanent)),
+            stack: this.stack.map(entry => ({
+                player: entry.player,
+                card: entry.card ? entry.card.getPrototype() : null,
+                targetIds: [...entry.targetIds],
+                hostId: entry.hostId
+            })),
+            damageOrder: this.attackDamageOrder
+                ? Array.from(this.attackDamageOrder.entries()).map(
+                      ([attackerId, blockers]) =>
+                          [attackerId, blockers.map(blocker => blocker.getId())] as [string, string[]]
+                  )
+                : null,
+            choices: this.currentChoices.map(
+                choice => (choice ? this.snapshotChoice(choice) : null)
+            )
+        };
+    }
+
+    /**
+     * Replaces the state of the game with a snapshot produced by snapshot().
+     *
+     * Cards are rebuilt from the card list and permanents re-enter the board
+     * without triggering any of the events that playing them would.
+     */
+    public restore(snapshot: GameSnapshot) {
+        if (snapshot.version !== snapshotVersion) {
+            throw new Error(
+                `Cannot restore snapshot of version ${snapshot.version} (expected ${snapshotVersion})`
+            );
+        }
+        this.board = new Board(this.format.playerCount, this.format.boardSize);
+        this.gameEvents = new GameEventSystem();
+        this.cardPool = new Map<string, Card>();
+        this.attackers = [];
+        this.blockers = [];
+        this.orderableAttacks = null;
+        this.receivedChoice = undefined;
+
+        this.turn = snapshot.turn;
+        this.turnNum = snapshot.turnNum;
+        this.startingPlayer = snapshot.startingPlayer;
+        this.phase = snapshot.phase;
+        this.lastPhase = snapshot.lastPhase;
+        this.priorityPlayer = snapshot.priorityPlayer;
+        this.winner = snapshot.winner;
+        this.dyingPlayers.clear();
+        this.generatedCardId = snapshot.generatedCardId;
+        this.defendingPlayer = snapshot.defendingPlayer;
+        this.eliminated = new Set(snapshot.eliminated);
+
+        this.players.forEach((player, number) =>
+            player.restore(snapshot.players[number], proto =>
+                this.restoreCard(proto, GameZone.Deck)
+            )
+        );
+        this.addDeathHandlers();
+        this.crypt = snapshot.crypts.map(crypt =>
+            crypt.map(proto => this.restoreCard(proto, GameZone.Crypt))
+        );
+
+        // Every permanent enters before any state is restored, so the effects
+        // permanents apply to each other are overwritten rather than counted twice
+        const permanents = snapshot.board.map(data =>
+            this.restorePermanent(data)
+        );
+        permanents.forEach((permanent, i) =>
+            this.restorePermanentState(permanent, snapshot.board[i])
+        );
+
+        this.stack = snapshot.stack.map(entry => ({
+            player: entry.player,
+            card: entry.card
+                ? this.restoreCard(entry.card, GameZone.Stack)
+                : null,
+            targetIds: [...entry.targetIds],
+            hostId: entry.hostId
+        }));
+        this.attackDamageOrder = snapshot.damageOrder
+            ? new Map(
+                  snapshot.damageOrder.map(
+                      ([attackerId, blockerIds]) =>
+                          [attackerId, blockerIds.map(id => this.getUnitById(id))] as [string, Unit[]]
+                  )
+              )
+            : null;
+
+        this.currentChoices = this.players.map(() => null);
+        for (const choice of snapshot.choices) {
+            if (choice) {
+                this.restoreChoice(choice);
+            }
+        }
+    }
+
+    private snapshotPermanent(permanent: Permanent): PermanentSnapshot {
+        const snapshot: PermanentSnapshot = permanent.getPrototype();
+        if (isUnit(permanent)) {
+            snapshot.unit = permanent.getState();
+            snapshot.items = permanent
+                .getItems()
+                .map(item => item.getPrototype());
+        } else if (isEnchantment(permanent)) {
+            snapshot.power = permanent.getPower();
+            snapshot.empowerable = permanent.isEmpowerable();
+            snapshot.diminishable = permanent.isDiminishable();
+        }
+        return snapshot;
+    }
+
+    /** Checks if the game can currently be saved with snapshot() */
+    public canSnapshot() {
+        return this.currentChoices.every(
+            choice => choice === null || choice.source !== undefined
+        );
+    }
+
+    private snapshotChoice(choice: Choice): ChoiceSnapshot {
+        if (!choice.source) {
+            throw new Error(
+                `Cannot snapshot a choice without a source (player ${choice.player})`
+            );
+        }
+        return {
+            player: choice.player,
+            validCardIds: Array.from(choice.validCards).map(card =>
+                card.getId()
+            ),
+            min: choice.min,
+            max: choice.max,
+            message: choice.message,
+            heuristic: choice.heuristic,
+            source: { ...choice.source }
+        };
+    }
+
+    /** Builds a new instance of the card described by a prototype */
+    protected abstract buildCard(proto: CardPrototype): Card;
+
+    /** Builds a mechanic from the data it was saved as */
+    protected abstract buildMechanic(data: MechanicData): Mechanic;
+
+    private restoreCard(proto: CardPrototype, zone: GameZone) {
+        const card = this.buildCard(proto);
+        card.setLocation(zone);
+        this.cardPool.set(card.getId(), card);
+        return card;
+    }
+
+    private restorePermanent(data: PermanentSnapshot) {
+        const permanent = this.restoreCard(data, GameZone.Board) as Permanent;
+        permanent.enterTheBattlefield(this);
+        if (isUnit(permanent)) {
+            this.addDeathWatchers(permanent, unit => this.unitDeathEffects(unit));
+        } else if (isEnchantment(permanent)) {
+            this.addDeathWatchers(permanent, enc =>
+                this.enchantmentDeathEffects(enc)
+            );
+        }
+        this.board.addPermanent(permanent);
+        return permanent;
+    }
+
+    private restorePermanentState(permanent: Permanent, data: PermanentSnapshot) {
+        if (isUnit(permanent) && data.unit) {
+            for (const itemData of data.items || []) {
+                const item = this.restoreCard(itemData, GameZone.Board) as Item;
+                item.reattach(permanent, this);
+            }
+            this.restoreMechanics(permanent, data.unit.mechanics);
+            permanent.setState(data.unit);
+        } else if (isEnchantment(permanent) && data.power !== undefined) {
+            permanent.setPower(data.power);
+            permanent.setEmpowerable(data.empowerable !== false);
+            permanent.setDiminishable(data.diminishable !== false);
+        }
+    }
+
+    /** Adds and removes mechanics until a unit has the same mechanics it had when it was saved */
+    private restoreMechanics(unit: Unit, saved: MechanicData[]) {
+        const missing = saved.map(data => JSON.stringify(data));
+        for (const mechanic of [...unit.getMechanics()]) {
+            // Mechanics are only kept if their parameters, trigger and targeter are unchanged
+            const index = missing.indexOf(
+                JSON.stringify(mechanic.toData(unit))
+            );
+            if (index === -1) {
+                unit.removeMechanic(mechanic.getId(), this);
+            } else {
+                missing.splice(index, 1);
+            }
+        }
+        for (const data of missing) {
+            unit.addMechanic(this.buildMechanic(JSON.parse(data)), this);
+        }
+    }
+
+    /** Prompts a saved choice again, rebuilding the effect that was attached to it */
+    private restoreChoice(choice: ChoiceSnapshot) {
+        const player = this.players[choice.player];
+        const validCards = choice.validCardIds.map(id => this.getCardById(id));
+        switch (choice.source.kind) {
+            case ChoiceKind.Replace:
+                player.replace(this, choice.min, choice.max);
+                break;
+            case ChoiceKind.RedrawHand:
+                player.redrawHand(this);
+                break;
+            case ChoiceKind.Discard:
+                player.discard(this, choice.min);
+                break;
+            case ChoiceKind.EndOfTurnDiscard:
+                player.discardExtra(this);
+                break;
+            case ChoiceKind.DrawFromDeck:
+                player.chooseCardsToDraw(this, validCards, choice.max);
+                break;
+            case ChoiceKind.Mechanic:
+                this.restoreMechanicChoice(choice, validCards);
+                break;
+        }
+    }
+
+    private restoreMechanicChoice(choice: ChoiceSnapshot, validCards: Card[]) {
+        const card = this.getCardById(choice.source.cardId as string);
+        const mechanic = card
+            .getMechanics()
+            .find(
+                cardMechanic =>
+                    cardMechanic.getId() === choice.source.mechanicId
+            );
+        if (!mechanic) {
+            throw new Error(
+                `Cannot restore choice, ${card.getName()} has no mechanic ${choice.source.mechanicId}`
+            );
+        }
+        this.promptMechanicChoice(
+            card,
+            mechanic,
+            validCards,
+            choice.min,
+            choice.max,
+            choice.message,
+            choice.heuristic as ChoiceHeuristic
+        );
+    }
+
     // Game Flow Logic (phases, turns) -------------------------------------------------
 
     protected changePhase(nextPhase: GamePhase) {
+        this.resolvePlayerDeaths();
+        if (this.winner !== -1) {
+            return;
+        }
         this.phase = nextPhase;
         this.addGameEvent({
             type: SyncEventType.PhaseChange,
@@ -450,7 +1261,15 @@ export abstract class Game {
     }
 
     public nextTurn() {
-        this.turn = this.getOtherPlayerNumber(this.turn);
+        this.resolvePlayerDeaths();
+        if (this.winner !== -1) {
+            return;
+        }
+        if (this.format.maxTurns > 0 && this.turnNum >= this.format.maxTurns) {
+            this.endGame(drawWinner);
+            return;
+        }
+        this.turn = this.getNextPlayerNumber(this.turn);
         this.turnNum++;
         this.addGameEvent({
             type: SyncEventType.TurnStart,
@@ -462,6 +1281,7 @@ export abstract class Game {
 
     public refresh() {
         this.phase = GamePhase.Play1;
+        this.defendingPlayer = this.getNextOpponent(this.turn);
         const currentPlayerEntities = this.getCurrentPlayerUnits();
         currentPlayerEntities.forEach(unit => unit.refresh());
         this.players[this.turn].startTurn();
@@ -481,10 +1301,7 @@ export abstract class Game {
         }
     }
 
-    public changeUnitOwner(unit: Unit) {
-        const originalOwner = unit.getOwner();
-        const newOwner = this.getOtherPlayerNumber(originalOwner);
-
+    public changeUnitOwner(unit: Unit, newOwner: number) {
         this.removePermanent(unit);
         unit.setOwner(newOwner);
         unit.getTargeter().setTargets([]);
@@ -564,6 +1381,10 @@ export abstract class Game {
         return this.players[playerNum];
     }
 
+    public getPlayers() {
+        return this.players;
+    }
+
     public getBoard() {
         return this.board;
     }
@@ -579,19 +1400,90 @@ export abstract class Game {
     }
 
     public getNonturnPlayer() {
-        return this.getOtherPlayerNumber(this.turn);
+        return this.getNextOpponent(this.turn);
+    }
+
+    /** Gets the player who is the target of this turns attack */
+    public getDefendingPlayer() {
+        return this.defendingPlayer;
+    }
+
+    /**
+     * Chooses which player this turns attack targets.
+     * Every attacker attacks the same player.
+     */
+    public setDefendingPlayer(playerNumber: number) {
+        this.defendingPlayer = playerNumber;
+    }
+
+    public canAttackPlayer(attacker: number, target: number) {
+        return this.getOpponents(attacker).includes(target);
     }
 
     public getActivePlayer() {
-        if (this.phase === GamePhase.Block) {
-            return this.getOtherPlayerNumber(this.turn);
+        if (this.phase === GamePhase.Response) {
+            return this.priorityPlayer;
+        } else if (this.phase === GamePhase.Block) {
+            return this.defendingPlayer;
         } else {
             return this.turn;
         }
     }
 
-    public getOtherPlayerNumber(playerNum: number): number {
-        return (playerNum + 1) % this.players.length;
+    /** Gets the next player in turn order who has not been eliminated */
+    public getNextPlayerNumber(playerNum: number): number {
+        return this.findNextPlayer(playerNum, () => true);
+    }
+
+    /** Gets the next player in turn order who has not been eliminated and is not on the given players team */
+    public getNextOpponent(playerNum: number): number {
+        return this.findNextPlayer(
+            playerNum,
+            next => !this.isAlly(next, playerNum)
+        );
+    }
+
+    private findNextPlayer(
+        playerNum: number,
+        predicate: (next: number) => boolean
+    ): number {
+        for (let i = 1; i < this.players.length; i++) {
+            const next = (playerNum + i) % this.players.length;
+            if (!this.eliminated.has(next) && predicate(next)) {
+                return next;
+            }
+        }
+        return playerNum;
+    }
+
+    /**
+     * Gets the team a player belongs to.
+     * Formats without teams put each player on a team of their own.
+     */
+    public getTeam(playerNum: number): number {
+        const team = this.format.teams[playerNum];
+        return team === undefined ? playerNum : team;
+    }
+
+    /** Checks if two players are on the same team (a player is always their own ally) */
+    public isAlly(playerNum: number, otherPlayerNum: number) {
+        return this.getTeam(playerNum) === this.getTeam(otherPlayerNum);
+    }
+
+    /** Gets every teammate of a player who has not been eliminated */
+    public getAllies(playerNum: number): number[] {
+        return this.getRemainingPlayers().filter(
+            playerNumber =>
+                playerNumber !== playerNum &&
+                this.isAlly(playerNumber, playerNum)
+        );
+    }
+
+    /** Gets every player who has not been eliminated and is not on the given players team */
+    public getOpponents(playerNum: number): number[] {
+        return this.getRemainingPlayers().filter(
+            playerNumber => !this.isAlly(playerNumber, playerNum)
+        );
     }
 
     public getCurrentPlayer() {
@@ -634,6 +1526,10 @@ export abstract class Game {
         return this.phase;
     }
 
+    public getTurnNumber() {
+        return this.turnNum;
+    }
+
     public getPlayerActions() {
         return this.events;
     }
@@ -643,9 +1539,7 @@ export abstract class Game {
     }
 
     public isActivePlayer(player: number) {
-        return this.phase === GamePhase.Block
-            ? !this.isPlayerTurn(player)
-            : this.isPlayerTurn(player);
+        return this.getActivePlayer() === player;
     }
 
     public isPlayPhase() {
@@ -1,5 +1,19 @@
 import { Resource, ResourceType, ResourceTypeGroup } from './resource';
 
+export enum MulliganStyle {
+    Replace, // Each player may replace any of the cards in their opening hand once
+    PartialReplace, // As Replace, but only up to mulliganLimit cards
+    DrawOneFewer, // Each player may redraw their whole hand, drawing one fewer card
+    None
+}
+
+export enum FatigueCurve {
+    Exponential, // Doubles each time, starting at fatigueDamage
+    Linear, // Increases by fatigueDamage each time
+    Fixed, // Always deals fatigueDamage
+    DeckOutLoses // Drawing from an empty deck loses the game
+}
+
 export class GameFormat {
     public name = 'Standard';
     public zoneNames = ['Board', 'Hand', 'Crypt'];
@@ -7,11 +21,34 @@ export class GameFormat {
     // General Gameplay
     public boardSize = 7;
     public playerCount = 2; // Number of players in format
+    public maxTurns = 0; // The game is drawn once this many turns have been played, 0 for no limit
     public rarityNames: string[] = ['Common', 'Rare', 'Epic', 'Legendary'];
     public basicResources: Map<string, Resource> = new Map<string, Resource>();
 
+    // Hands and Decks
+    public hardHandLimit = 12; // Cards drawn beyond this are discarded
+    public softHandLimit = 8; // Players discard down to this at the end of their turn
+    public mulliganStyle = MulliganStyle.Replace;
+    public mulliganLimit = 2; // Most cards that can be replaced with a partial mulligan
+    public fatigueCurve = FatigueCurve.Exponential;
+    public fatigueDamage = 1; // Damage from the first draw from an empty deck
+
+    // Teams
+    public teams: number[] = []; // The team of each player, players without a team play alone
+    public sharedLife = false; // Whether teammates share a single life total
+
+    // Time Controls (in milliseconds, 0 for no limit)
+    public turnTimeLimit = 0; // Time a player has to act each time the game waits on them
+    public gameClock = 0; // Time each player has for the whole game
+
+    // Turn Order
+    public randomStartingPlayer = false; // Whether a seeded coin flip picks who goes first, otherwise player 0 does
+    public secondPlayerCards = 0; // Extra cards drawn by the second player to take a turn
+    public secondPlayerEnergy = 0; // Extra energy the second player gets during their first turn
+    public secondPlayerLife = 0; // Extra life the second player starts with
+
     // Starting Values
-    public initialDraw: number[] = [3, 4]; // Number of cards each player draws on turn 1
+    public initialDraw: number[] = [3, 4]; // Number of cards each player draws on turn 1, in turn order
     public initialLife: number[] = [25, 25]; // Number of life each player gets on turn 1
     public initialResource: Resource[] = [new Resource(0), new Resource(0)];
 
@@ -19,7 +56,10 @@ export class GameFormat {
     public minDeckSize = 40;
     public maxDeckSize = 50;
     public maxCardsOfType = 4;
-    public cardsOfRarity = [Infinity, Infinity, Infinity, Infinity];
+    public cardsOfRarity = [Infinity, Infinity, Infinity, Infinity]; // Most copies of a card of each rarity, by rarityNames
+    public rarityWeights = [27, 9, 3, 1]; // How often cards of each rarity are found in boosters, relative to each other
+    public legalSets: string[] = []; // Ids of the card sets allowed in decks, empty to allow every set
+    public bannedCards: string[] = []; // Ids of cards that may not be put in decks
 
     constructor() {
         this.basicResources.set('basic', new Resource(1));
@@ -40,3 +80,40 @@ export const standardFormat = new GameFormat();
 
 export const limitedFormat = new GameFormat();
 limitedFormat.maxCardsOfType = Infinity;
+
+/**
+ * Creates a free-for-all format where each player fights every other player.
+ * Everyone but the first player draws an extra card, as in a two player game.
+ */
+export function freeForAllFormat(playerCount: number) {
+    const format = new GameFormat();
+    format.name = `${playerCount} Player Free-for-All`;
+    format.playerCount = playerCount;
+    format.initialDraw = [];
+    format.initialLife = [];
+    format.initialResource = [];
+    for (let i = 0; i < playerCount; i++) {
+        format.initialDraw.push(i === 0 ? 3 : 4);
+        format.initialLife.push(25);
+        format.initialResource.push(new Resource(0));
+    }
+    return format;
+}
+
+export const threePlayerFormat = freeForAllFormat(3);
+export const fourPlayerFormat = freeForAllFormat(4);
+
+/**
+ * Creates a two versus two format. Teammates sit opposite each other so turns
+ * alternate between the teams. Optionally each team shares a single life total.
+ */
+export function teamFormat(sharedLife: boolean = false) {
+    const format = freeForAllFormat(4);
+    format.name = sharedLife ? 'Two-Headed 2v2' : '2v2';
+    format.teams = [0, 1, 0, 1];
+    format.sharedLife = sharedLife;
+    return format;
+}
+
+export const twoVersusTwoFormat = teamFormat();
+export const sharedLifeTeamFormat = teamFormat(true);
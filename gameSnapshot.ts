@@ -0,0 +1,73 @@
+import { ChoiceHeuristic } from './ai/heuristics';
+import { CardPrototype } from './card-types/card';
+import { ChoiceSource } from './choice';
+import { UnitState } from './card-types/unit';
+import { MechanicData } from './cards/mechanicList';
+import { GamePhase } from './game';
+import { ResourcePrototype } from './resource';
+
+/** The version of the snapshot format produced by Game.snapshot(). Bump it whenever the format changes. */
+export const snapshotVersion = 4;
+
+export interface PermanentSnapshot extends CardPrototype {
+    unit?: UnitState;
+    power?: number;
+    empowerable?: boolean;
+    diminishable?: boolean;
+    // Items attached to a unit, in the order they were attached
+    items?: CardPrototype[];
+}
+
+export interface PlayerSnapshot {
+    life: number;
+    maxLife: number;
+    pool: ResourcePrototype;
+    hasPlayedResource: boolean;
+    fatigueLevel: number;
+    bonusEnergy: number;
+    hand: CardPrototype[];
+    deck: CardPrototype[];
+}
+
+export interface StackEntrySnapshot {
+    player: number;
+    card: CardPrototype | null;
+    targetIds: string[];
+    hostId?: string;
+}
+
+export interface ChoiceSnapshot {
+    player: number;
+    validCardIds: string[];
+    min: number;
+    max: number;
+    message: string;
+    heuristic?: ChoiceHeuristic;
+    source: ChoiceSource;
+}
+
+/**
+ * A serializable copy of everything needed to resume a game.
+ *
+ * Cards are stored by their id and data id and rebuilt from the card list on restore,
+ * only state that can change during a game is stored alongside them.
+ */
+export interface GameSnapshot {
+    version: number;
+    turn: number;
+    turnNum: number;
+    startingPlayer: number;
+    phase: GamePhase;
+    lastPhase: GamePhase;
+    priorityPlayer: number;
+    winner: number;
+    generatedCardId: number;
+    defendingPlayer: number;
+    eliminated: number[];
+    players: PlayerSnapshot[];
+    crypts: CardPrototype[][];
+    board: PermanentSnapshot[];
+    stack: StackEntrySnapshot[];
+    damageOrder: [string, string[]][] | null;
+    choices: (ChoiceSnapshot | null)[];
+}
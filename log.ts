@@ -1,13 +1,22 @@
 import { Card } from './card-types/card';
 import { properList } from '../game_model/strings';
 import { Unit } from './card-types/unit';
+import { spectatorPlayerNumber } from './events/redaction';
 import { SyncPlayCard } from './events/syncEvent';
 import { Game } from './game';
 
 export class Log {
     private items: LogItem[] = [];
     private game?: Game;
+    // Names used to describe players when the log is read by a spectator
+    private playerNames: string[] = [];
 
+    /**
+     * Creates a log of a game as seen by one of its players.
+     *
+     * @param playerNo - The player reading the log, or spectatorPlayerNumber to describe every player by name
+     * @param size - The number of entries to keep
+     */
     constructor(private playerNo: number = 0, private size: number = 20) {}
 
     public addCombatResolved(
@@ -28,8 +37,10 @@ export class Log {
                 return `${blocked.getName()} with ${blocker.getName()}`;
             })
         );
-        const attackerName = this.isEnemy(defender) ? 'You' : 'Your opponent';
-        const blockerName = this.isEnemy(defender) ? 'Your opponent' : 'You';
+        const attackerName = this.describePlayer(
+            game.getCurrentPlayer().getPlayerNumber()
+        );
+        const blockerName = this.describePlayer(defender);
         let tip = `${attackerName} attacked with ${attackersList}. `;
         if (blockers.length > 0) {
             tip += `${blockerName} blocked ${blockerList}.`;
@@ -65,6 +76,23 @@ export class Log {
         this.playerNo = playerNo;
     }
 
+    public setPlayerNames(names: string[]) {
+        this.playerNames = names;
+    }
+
+    /** Checks if the log is being read by a spectator rather than one of the players */
+    public isNeutral() {
+        return this.playerNo === spectatorPlayerNumber;
+    }
+
+    /** Gets how a player is referred to in the log */
+    private describePlayer(player: number) {
+        if (this.isNeutral()) {
+            return this.playerNames[player] || `Player ${player + 1}`;
+        }
+        return this.isEnemy(player) ? 'Your opponent' : 'You';
+    }
+
     public getItems() {
         return this.items;
     }
@@ -85,7 +113,7 @@ export class Log {
     }
 
     private makeCardPlayTooltip(event: SyncPlayCard): string {
-        const name = this.isEnemy(event.playerNo) ? 'Your opponent' : 'You';
+        const name = this.describePlayer(event.playerNo);
         const card = this.getCard(event);
         const game = this.game;
         if (!game) {
@@ -1,6 +1,7 @@
 import { multiply, reduce, sumBy } from 'lodash';
 import { Card } from './card-types/card';
-import { ParameterType } from './cards/parameters';
+import { MechanicData } from './cards/mechanicList';
+import { ParameterData, ParameterType } from './cards/parameters';
 import { Play } from './cards/triggers/basic';
 import { CardType } from './cardType';
 import { Game } from './game';
@@ -109,11 +110,28 @@ export abstract class Mechanic {
     public enter(parent: Card, game: Game) {}
     public attach(parent: Card) {}
 
+    /**
+     * Applies the cards chosen for a choice this mechanic prompted with game.promptMechanicChoice().
+     * Mechanics that prompt choices put their effect here, so it can be rebuilt from a snapshot.
+     */
+    public resolveChoice(parent: Card, game: Game, chosen: Card[]) {}
+
     public getId(): string {
         return (this.constructor as any).id;
     }
 
+    /**
+     * Gets the current values of the parameters listed in ParameterTypes, in the same order.
+     * Cards are given by data id and abilities by mechanic id, as in card data.
+     */
+    public getParameterValues(): ParameterData[] {
+        return [];
+    }
 
+    /** Converts the mechanic to data that MechanicList can build it from */
+    public toData(parent: Card): MechanicData {
+        return { id: this.getId(), parameters: this.getParameterValues() };
+    }
 }
 
 export abstract class TriggeredMechanic extends Mechanic {
@@ -175,6 +193,13 @@ export abstract class TriggeredMechanic extends Mechanic {
     public getTriggeringUnit() {
         return this.triggeringUnit;
     }
+
+    public toData(parent: Card): MechanicData {
+        return {
+            ...super.toData(parent),
+            trigger: { id: this.triggerType.getId() }
+        };
+    }
 }
 
 export abstract class TargetedMechanic extends TriggeredMechanic {
@@ -198,6 +223,15 @@ export abstract class TargetedMechanic extends TriggeredMechanic {
         return this.targeter;
     }
 
+    public toData(parent: Card): MechanicData {
+        const data = super.toData(parent);
+        // Mechanics that use their cards targeter are loaded without one
+        if (this.targeter !== parent.getTargeter()) {
+            data.targeter = this.targeter.toData();
+        }
+        return data;
+    }
+
     public evaluateEffect(card: Card, game: Game) {
         return sumBy(this.targeter.getUnitTargets(card, game, this), target =>
             this.evaluateTarget(card, target, game, new Map())
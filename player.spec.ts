@@ -0,0 +1,230 @@
+import { ServerGame } from 'app/game_model/serverGame';
+import {
+    FatigueCurve,
+    GameFormat,
+    MulliganStyle
+} from 'app/game_model/gameFormat';
+import {
+    ActionRejectionCode,
+    GameActionType
+} from 'app/game_model/events/gameAction';
+import { getStarterDecks } from 'app/game_model/scenarios/decks';
+import { Card } from './card-types/card';
+import { ChoiceKind } from './choice';
+
+/** Starts a game in a format, leaving the opening hands to be mulliganed */
+const newGame = (format: GameFormat) => {
+    const decks = getStarterDecks();
+    const game = new ServerGame(
+        'game',
+        format,
+        [decks[0], decks[1]],
+        1234
+    );
+    game.startGame();
+    return game;
+};
+
+const getIds = (cards: Card[]) => cards.map(card => card.getId());
+
+describe('Player', () => {
+    let format: GameFormat;
+
+    beforeEach(() => {
+        format = new GameFormat();
+    });
+
+    describe('mulligans', () => {
+        it('should not be offered in formats without them', () => {
+            format.mulliganStyle = MulliganStyle.None;
+
+            const game = newGame(format);
+
+            expect(game.snapshot().choices).toEqual([null, null]);
+        });
+
+        it('should replace at most mulliganLimit cards with a partial mulligan', () => {
+            format.mulliganStyle = MulliganStyle.PartialReplace;
+            format.mulliganLimit = 2;
+            const game = newGame(format);
+            const hand = getIds(game.getPlayer(0).getHand());
+
+            const result = game.handleAction({
+                type: GameActionType.CardChoice,
+                player: 0,
+                choice: hand.slice(0, 3)
+            });
+
+            expect(result).toEqual(
+                jasmine.objectContaining({
+                    code: ActionRejectionCode.InvalidChoice
+                })
+            );
+            game.handleAction({
+                type: GameActionType.CardChoice,
+                player: 0,
+                choice: hand.slice(0, 2)
+            });
+            const newHand = getIds(game.getPlayer(0).getHand());
+            expect(newHand.length).toBe(hand.length);
+            expect(newHand).toContain(hand[2]);
+            expect(newHand).not.toContain(hand[0]);
+        });
+
+        describe('that draw one fewer card', () => {
+            let game: ServerGame;
+            let hand: string[];
+
+            beforeEach(() => {
+                format.mulliganStyle = MulliganStyle.DrawOneFewer;
+                game = newGame(format);
+                hand = getIds(game.getPlayer(0).getHand());
+            });
+
+            it('should redraw the whole hand with one fewer card', () => {
+                game.handleAction({
+                    type: GameActionType.CardChoice,
+                    player: 0,
+                    choice: hand
+                });
+
+                const player = game.getPlayer(0);
+                expect(player.getHand().length).toBe(hand.length - 1);
+                expect(getIds(player.getDeck())).toEqual(
+                    jasmine.arrayContaining(hand)
+                );
+            });
+
+            it('should keep the hand when no cards are chosen', () => {
+                game.handleAction({
+                    type: GameActionType.CardChoice,
+                    player: 0,
+                    choice: []
+                });
+
+                expect(getIds(game.getPlayer(0).getHand())).toEqual(hand);
+            });
+
+            it('should only accept the whole hand or none of it', () => {
+                const result = game.handleAction({
+                    type: GameActionType.CardChoice,
+                    player: 0,
+                    choice: hand.slice(1)
+                });
+
+                expect(result).toEqual(
+                    jasmine.objectContaining({
+                        code: ActionRejectionCode.InvalidChoice
+                    })
+                );
+                expect(getIds(game.getPlayer(0).getHand())).toEqual(hand);
+                expect(game.getLegalActions(0)).toEqual([
+                    { type: GameActionType.CardChoice, player: 0, choice: [] },
+                    { type: GameActionType.CardChoice, player: 0, choice: hand }
+                ]);
+            });
+
+            it('should be prompted again when a snapshot is restored', () => {
+                const decks = getStarterDecks();
+                const restored = new ServerGame(
+                    'restored',
+                    format,
+                    [decks[0], decks[1]],
+                    1234
+                );
+                restored.restore(JSON.parse(JSON.stringify(game.snapshot())));
+
+                const choice = restored.snapshot().choices[0];
+                expect(choice && choice.source.kind).toBe(
+                    ChoiceKind.RedrawHand
+                );
+                restored.handleAction({
+                    type: GameActionType.CardChoice,
+                    player: 0,
+                    choice: hand
+                });
+                expect(restored.getPlayer(0).getHand().length).toBe(
+                    hand.length - 1
+                );
+            });
+        });
+    });
+
+    describe('discarding', () => {
+        it('should discard the whole hand without a choice when it must all go', () => {
+            format.mulliganStyle = MulliganStyle.None;
+            const game = newGame(format);
+            const player = game.getPlayer(0);
+            const hand = [...player.getHand()];
+            const discarded = jasmine.createSpy('discarded');
+
+            player.discard(game, hand.length + 1, discarded);
+
+            expect(player.getHand()).toEqual([]);
+            expect(game.getCrypt(0)).toEqual(hand);
+            expect(discarded).toHaveBeenCalledWith(hand);
+            expect(game.snapshot().choices).toEqual([null, null]);
+        });
+    });
+
+    describe('hand limits', () => {
+        it('should discard cards drawn beyond the hard hand limit', () => {
+            format.mulliganStyle = MulliganStyle.None;
+            const game = newGame(format);
+            const player = game.getPlayer(0);
+            format.hardHandLimit = player.getHand().length;
+            const next = player.getDeck()[0];
+
+            player.drawCard();
+
+            expect(player.getHand().length).toBe(format.hardHandLimit);
+            expect(game.getCrypt(0)).toEqual([next]);
+        });
+    });
+
+    describe('fatigue', () => {
+        /** Empties a players deck, then returns the damage dealt by each of a number of draws */
+        const getFatigueDamage = (draws: number) => {
+            format.mulliganStyle = MulliganStyle.None;
+            const game = newGame(format);
+            const player = game.getPlayer(0);
+            player.getDeck().splice(0);
+            const damage: number[] = [];
+            for (let i = 0; i < draws; i++) {
+                const life = player.getLife();
+                player.drawCard();
+                damage.push(life - player.getLife());
+            }
+            return damage;
+        };
+
+        it('should double with an exponential curve', () => {
+            format.fatigueDamage = 1;
+            expect(getFatigueDamage(4)).toEqual([1, 2, 4, 8]);
+        });
+
+        it('should grow steadily with a linear curve', () => {
+            format.fatigueCurve = FatigueCurve.Linear;
+            format.fatigueDamage = 2;
+            expect(getFatigueDamage(3)).toEqual([2, 4, 6]);
+        });
+
+        it('should stay the same with a fixed curve', () => {
+            format.fatigueCurve = FatigueCurve.Fixed;
+            format.fatigueDamage = 3;
+            expect(getFatigueDamage(3)).toEqual([3, 3, 3]);
+        });
+
+        it('should lose the game when drawing from an empty deck loses', () => {
+            format.fatigueCurve = FatigueCurve.DeckOutLoses;
+            format.mulliganStyle = MulliganStyle.None;
+            const game = newGame(format);
+            game.getPlayer(0).getDeck().splice(0);
+
+            game.getPlayer(0).drawCard();
+            game.resolvePlayerDeaths();
+
+            expect(game.getWinner()).toBe(1);
+        });
+    });
+});
@@ -1,9 +1,12 @@
 import { remove } from 'lodash';
 import { ChoiceHeuristic } from './ai/heuristics';
-import { Card, GameZone } from './card-types/card';
-import { PlayerEventSystem } from './events/eventSystems';
+import { Card, CardPrototype, GameZone } from './card-types/card';
+import { ChoiceKind } from './choice';
+import { CardEventSystem, PlayerEventSystem } from './events/eventSystems';
 import { SyncEventType } from './events/syncEvent';
 import { Game } from './game';
+import { FatigueCurve, MulliganStyle } from './gameFormat';
+import { PlayerSnapshot } from './gameSnapshot';
 import { Resource } from './resource';
 import { ServerGame } from './serverGame';
 import { Unit, UnitType } from './card-types/unit';
@@ -19,11 +22,13 @@ export class Player extends Unit {
     private drawDisabled = false;
     protected playerEvents = new PlayerEventSystem();
 
-    private hardHandLimit = 12;
-    private softHandLimit = 8;
     private fatigueLevel = 0;
+    // Energy the player gets on top of their pool at the start of their next turn
+    private bonusEnergy = 0;
 
     private expectedDraws = 0;
+    // Teammates whose life total is kept equal to this players
+    private lifeSharedWith: Player[] = [];
 
     constructor(
         private parent: Game,
@@ -80,6 +85,7 @@ export class Player extends Unit {
     }
 
     public addToDeck(card: Card) {
+        card.setLocation(GameZone.Deck);
         this.deck.push(card);
     }
 
@@ -98,12 +104,40 @@ export class Player extends Unit {
 
     public addLife(diff: number) {
         this.life += diff;
+        this.syncSharedLife();
+    }
+
+    /** Makes this player share their life total with their teammates */
+    public shareLifeWith(teammates: Player[]) {
+        this.lifeSharedWith = teammates;
+    }
+
+    public takeDamage(amount: number, source: Card): number {
+        amount = super.takeDamage(amount, source);
+        this.syncSharedLife();
+        return amount;
+    }
+
+    private syncSharedLife() {
+        for (const teammate of this.lifeSharedWith) {
+            teammate.life = this.life;
+            teammate.checkDeath();
+        }
     }
 
     public startTurn() {
         this.drawCard();
         this.hasPlayedResource = false;
         this.resource.renew();
+        if (this.bonusEnergy > 0) {
+            this.resource.add(new Resource(this.bonusEnergy));
+            this.bonusEnergy = 0;
+        }
+    }
+
+    /** Gives the player extra energy for their next turn only */
+    public addBonusEnergy(amount: number) {
+        this.bonusEnergy += amount;
     }
 
     public getPool() {
@@ -151,9 +185,14 @@ export class Player extends Unit {
     }
 
     public discardExtra(game: Game) {
-        const num = this.hand.length - this.softHandLimit;
+        const num = this.hand.length - this.parent.getFormat().softHandLimit;
         if (num > 0) {
-            this.discard(game, num, () => game.nextTurn());
+            this.discard(
+                game,
+                num,
+                () => game.nextTurn(),
+                ChoiceKind.EndOfTurnDiscard
+            );
         } else {
             game.nextTurn();
         }
@@ -173,17 +212,80 @@ export class Player extends Unit {
                 });
             },
             'to replace',
-            ChoiceHeuristic.ReplaceHeuristic
+            ChoiceHeuristic.ReplaceHeuristic,
+            { kind: ChoiceKind.Replace }
+        );
+    }
+
+    /** Prompts the player to mulligan their opening hand in the way the format allows */
+    public mulligan(game: Game) {
+        const format = game.getFormat();
+        switch (format.mulliganStyle) {
+            case MulliganStyle.Replace:
+                this.replace(game, 0, this.hand.length);
+                break;
+            case MulliganStyle.PartialReplace:
+                this.replace(
+                    game,
+                    0,
+                    Math.min(format.mulliganLimit, this.hand.length)
+                );
+                break;
+            case MulliganStyle.DrawOneFewer:
+                this.redrawHand(game);
+                break;
+        }
+    }
+
+    /**
+     * Lets the player choose to put their hand on the bottom of their deck and draw one fewer card.
+     * The player chooses their whole hand to redraw it, or no cards to keep it.
+     */
+    public redrawHand(game: Game) {
+        game.promptCardChoice(
+            this.getPlayerNumber(),
+            this.hand,
+            0,
+            this.hand.length,
+            (cards: Card[]) => {
+                if (cards.length === 0) {
+                    return;
+                }
+                cards.forEach(card => {
+                    this.removeCardFromHand(card);
+                    this.addToDeck(card);
+                });
+                this.drawCards(cards.length - 1);
+            },
+            'to redraw your hand with one fewer card (choose all or none)',
+            ChoiceHeuristic.RedrawHeuristic,
+            { kind: ChoiceKind.RedrawHand }
         );
     }
 
+    /**
+     * Prompts the player to discard cards.
+     *
+     * @param kind - What the discard is for, so that it can be prompted again from a snapshot
+     */
     public discard(
         game: Game,
         count: number = 1,
-        cb?: (cards: Card[]) => void
+        cb?: (cards: Card[]) => void,
+        kind: ChoiceKind = ChoiceKind.Discard
     ) {
+        const discardCards = (cards: Card[]) => {
+            cards.forEach(card => {
+                this.removeCardFromHand(card);
+                game.addToCrypt(card);
+            });
+            if (cb) {
+                cb(cards);
+            }
+        };
+        // There is nothing to choose when the whole hand must go
         if (count >= this.hand.length) {
-            this.hand = [];
+            discardCards([...this.hand]);
             return;
         }
         game.promptCardChoice(
@@ -191,48 +293,66 @@ export class Player extends Unit {
             this.hand,
             count,
             count,
-            (cards: Card[]) => {
-                cards.forEach(card => {
-                    this.removeCardFromHand(card);
-                    game.addToCrypt(card);
-                });
-                if (cb) {
-                    cb(cards);
-                }
-            },
+            discardCards,
             'to discard',
-            ChoiceHeuristic.DiscardHeuristic
+            ChoiceHeuristic.DiscardHeuristic,
+            { kind: kind }
         );
     }
 
     public searchForCard(game: Game, count: number) {
         game.queryCards(
+            this.playerNumber,
             (queried: ServerGame) => {
                 return queried.shuffle(
                     queried.getPlayer(this.playerNumber).getDeck()
                 );
             },
-            (deck: Card[]) => {
-                game.promptCardChoice(
-                    this.playerNumber,
-                    deck,
-                    0,
-                    count,
-                    (cards: Card[]) => {
-                        cards.forEach(card => {
-                            this.drawGeneratedCard(card);
-                            deck.splice(deck.indexOf(card), 1);
-                        });
-                    },
-                    'to draw',
-                    ChoiceHeuristic.DrawHeuristic
-                );
-            }
+            (deck: Card[]) => this.chooseCardsToDraw(game, deck, count)
+        );
+    }
+
+    /** Prompts the player to draw up to a given number of cards from a list of cards in their deck */
+    public chooseCardsToDraw(game: Game, deck: Card[], count: number) {
+        game.promptCardChoice(
+            this.playerNumber,
+            deck,
+            0,
+            count,
+            (cards: Card[]) => {
+                cards.forEach(card => {
+                    this.drawGeneratedCard(card);
+                    deck.splice(deck.indexOf(card), 1);
+                });
+            },
+            'to draw',
+            ChoiceHeuristic.DrawHeuristic,
+            { kind: ChoiceKind.DrawFromDeck }
         );
     }
 
     public fatigue() {
-        this.takeDamage(Math.pow(2, this.fatigueLevel), this);
+        const format = this.parent.getFormat();
+        switch (format.fatigueCurve) {
+            case FatigueCurve.Exponential:
+                this.takeDamage(
+                    format.fatigueDamage * Math.pow(2, this.fatigueLevel),
+                    this
+                );
+                break;
+            case FatigueCurve.Linear:
+                this.takeDamage(
+                    format.fatigueDamage * (this.fatigueLevel + 1),
+                    this
+                );
+                break;
+            case FatigueCurve.Fixed:
+                this.takeDamage(format.fatigueDamage, this);
+                break;
+            case FatigueCurve.DeckOutLoses:
+                this.die();
+                break;
+        }
         this.fatigueLevel += 1;
 
         const parent = this.parent;
@@ -256,7 +376,7 @@ export class Player extends Unit {
     }
 
     private canDrawCard() {
-        return this.hand.length >= this.hardHandLimit;
+        return this.hand.length >= this.parent.getFormat().hardHandLimit;
     }
 
     public drawCard() {
@@ -298,4 +418,42 @@ export class Player extends Unit {
     public evaluate() {
         return 1000000;
     }
+
+    // Snapshots ---------------------------------------------------
+    public snapshot(): PlayerSnapshot {
+        return {
+            life: this.life,
+            maxLife: this.maxLife,
+            pool: this.resource.getPrototype(),
+            hasPlayedResource: this.hasPlayedResource,
+            fatigueLevel: this.fatigueLevel,
+            bonusEnergy: this.bonusEnergy,
+            hand: this.hand.map(card => card.getPrototype()),
+            deck: this.deck.map(card => card.getPrototype())
+        };
+    }
+
+    /**
+     * Replaces the players state with a snapshot of it.
+     * Any events registered on the player are discarded.
+     *
+     * @param unpack - Builds the card described by a prototype
+     */
+    public restore(
+        snapshot: PlayerSnapshot,
+        unpack: (proto: CardPrototype) => Card
+    ) {
+        this.life = snapshot.life;
+        this.maxLife = snapshot.maxLife;
+        this.resource = Resource.loadResource(snapshot.pool);
+        this.hasPlayedResource = snapshot.hasPlayedResource;
+        this.fatigueLevel = snapshot.fatigueLevel;
+        this.bonusEnergy = snapshot.bonusEnergy;
+        this.hand = snapshot.hand.map(unpack);
+        this.hand.forEach(card => card.setLocation(GameZone.Hand));
+        this.deck = snapshot.deck.map(unpack);
+        this.expectedDraws = 0;
+        this.events = new CardEventSystem();
+        this.playerEvents = new PlayerEventSystem();
+    }
 }
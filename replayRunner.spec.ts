@@ -0,0 +1,108 @@
+import { ServerGame } from 'app/game_model/serverGame';
+import { GameFormat, standardFormat } from 'app/game_model/gameFormat';
+import { GameActionType } from 'app/game_model/events/gameAction';
+import { getStarterDecks } from 'app/game_model/scenarios/decks';
+import { ReplayRunner } from './replayRunner';
+
+const getHandIds = (game: ServerGame, player: number) =>
+    game
+        .getPlayer(player)
+        .getHand()
+        .map(card => card.getId());
+
+const playGame = (
+    seed: number,
+    passes: number,
+    format: GameFormat = standardFormat
+) => {
+    const decks = getStarterDecks();
+    const game = new ServerGame(
+        'game',
+        format,
+        [decks[0], decks[1]],
+        seed
+    );
+    game.startGame();
+    // Both players keep their opening hands
+    game.handleAction({ type: GameActionType.CardChoice, player: 0, choice: [] });
+    game.handleAction({ type: GameActionType.CardChoice, player: 1, choice: [] });
+    for (let i = 0; i < passes; i++) {
+        game.handleAction({
+            type: GameActionType.Pass,
+            player: game.getActivePlayer()
+        });
+    }
+    return game;
+};
+
+describe('ReplayRunner', () => {
+    let original: ServerGame;
+    let runner: ReplayRunner;
+
+    beforeEach(() => {
+        original = playGame(1234, 6);
+        runner = new ReplayRunner(original.getReplay());
+    });
+
+    it('should reproduce the recorded game', () => {
+        runner.jumpTo(runner.getActionCount());
+        const replayed = runner.getGame();
+
+        expect(runner.isAtEnd()).toBe(true);
+        expect(replayed.getTurnNumber()).toBe(original.getTurnNumber());
+        expect(getHandIds(replayed, 0)).toEqual(getHandIds(original, 0));
+        expect(getHandIds(replayed, 1)).toEqual(getHandIds(original, 1));
+        expect(runner.verify().matches).toBe(true);
+    });
+
+    it('should step backwards to the same state it stepped forward through', () => {
+        runner.jumpTo(5);
+        const handIds = getHandIds(runner.getGame(), 0);
+
+        runner.stepForward();
+        runner.stepBackward();
+
+        expect(runner.getPosition()).toBe(5);
+        expect(getHandIds(runner.getGame(), 0)).toEqual(handIds);
+    });
+
+    it('should move between turns', () => {
+        runner.nextTurn();
+        expect(runner.getPosition()).toBe(3);
+        expect(runner.getGame().getTurnNumber()).toBe(2);
+
+        runner.nextTurn();
+        expect(runner.getGame().getTurnNumber()).toBe(3);
+
+        runner.previousTurn();
+        expect(runner.getPosition()).toBe(3);
+
+        runner.previousTurn();
+        expect(runner.getPosition()).toBe(0);
+        expect(runner.getGame().getTurnNumber()).toBe(1);
+    });
+
+    it('should replay the game in the format it was played in', () => {
+        const format = new GameFormat();
+        format.name = 'Short';
+        format.initialDraw = [5, 6];
+        format.initialLife = [10, 12];
+        const game = playGame(1234, 6, format);
+
+        const replayRunner = new ReplayRunner(game.getReplay());
+        replayRunner.jumpTo(replayRunner.getActionCount());
+        const replayed = replayRunner.getGame();
+
+        expect(replayed.getFormat().initialLife).toEqual([10, 12]);
+        expect(getHandIds(replayed, 0)).toEqual(getHandIds(game, 0));
+        expect(getHandIds(replayed, 1)).toEqual(getHandIds(game, 1));
+        expect(replayRunner.verify().matches).toBe(true);
+    });
+
+    it('should detect a replay whose winner does not match', () => {
+        const replay = original.getReplay();
+        replay.winner = 0;
+
+        expect(new ReplayRunner(replay).verify().matches).toBe(false);
+    });
+});
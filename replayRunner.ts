@@ -0,0 +1,153 @@
+import { DeckList } from './deckList';
+import { ActionRejection } from './events/gameAction';
+import { GameSyncEvent } from './events/syncEvent';
+import { loadFormat } from './formatLoader';
+import { GameFormat } from './gameFormat';
+import { GameReplay, ServerGame } from './serverGame';
+
+export interface ReplayVerification {
+    expectedWinner: number;
+    actualWinner: number;
+    matches: boolean;
+}
+
+/**
+ * Re-simulates a recorded game from its GameReplay.
+ *
+ * The game is rebuilt from the replay's format, decks and seed, then its actions are fed back
+ * through ServerGame.handleAction. As games cannot be rewound, moving backwards rebuilds
+ * the game and replays it up to the requested position.
+ */
+export class ReplayRunner {
+    private game: ServerGame;
+    // The number of actions that have been applied to the current game
+    private position = 0;
+    // The turn number of the game after a given number of actions have been applied
+    private turnAtPosition: number[] = [];
+    private finalWinner: number;
+    private format: GameFormat;
+
+    constructor(private replay: GameReplay) {
+        this.format = loadFormat(replay.format);
+        this.game = this.buildGame();
+        this.turnAtPosition.push(this.game.getTurnNumber());
+        for (const action of this.replay.actions) {
+            this.game.handleAction(action);
+            this.turnAtPosition.push(this.game.getTurnNumber());
+        }
+        this.finalWinner = this.game.getWinner();
+        this.reset();
+    }
+
+    private buildGame() {
+        const game = new ServerGame(
+            'replay',
+            this.format,
+            this.replay.deckLists.map(
+                saved => new DeckList(this.format, saved)
+            ),
+            this.replay.seed
+        );
+        game.startGame();
+        return game;
+    }
+
+    /** Rebuilds the game in its initial state, before any action was taken */
+    public reset() {
+        this.game = this.buildGame();
+        this.position = 0;
+    }
+
+    public getGame() {
+        return this.game;
+    }
+
+    /** Gets the number of actions that have been applied so far */
+    public getPosition() {
+        return this.position;
+    }
+
+    public getActionCount() {
+        return this.replay.actions.length;
+    }
+
+    public isAtStart() {
+        return this.position === 0;
+    }
+
+    public isAtEnd() {
+        return this.position === this.replay.actions.length;
+    }
+
+    /**
+     * Applies the next action of the replay.
+     *
+     * Returns the events the action produced or the reason the action was rejected (as it was when the game was played).
+     * Returns null if there are no actions left.
+     */
+    public stepForward(): GameSyncEvent[] | ActionRejection | null {
+        if (this.isAtEnd()) {
+            return null;
+        }
+        const events = this.game.handleAction(
+            this.replay.actions[this.position]
+        );
+        this.position++;
+        return events;
+    }
+
+    /** Undoes the last applied action */
+    public stepBackward() {
+        this.jumpTo(this.position - 1);
+    }
+
+    /**
+     * Moves the game to the state it was in after a given number of actions.
+     *
+     * @param index - The number of actions to have applied, clamped to the length of the replay
+     */
+    public jumpTo(index: number) {
+        index = Math.max(0, Math.min(index, this.replay.actions.length));
+        if (index < this.position) {
+            this.reset();
+        }
+        while (this.position < index) {
+            this.stepForward();
+        }
+    }
+
+    /** Moves forward to the first action of the next turn (or the end of the replay) */
+    public nextTurn() {
+        const currentTurn = this.turnAtPosition[this.position];
+        let target = this.position;
+        while (
+            target < this.replay.actions.length &&
+            this.turnAtPosition[target] === currentTurn
+        ) {
+            target++;
+        }
+        this.jumpTo(target);
+    }
+
+    /**
+     * Moves back to the start of the current turn.
+     * If we are already at the start of a turn it moves to the start of the previous turn.
+     */
+    public previousTurn() {
+        let target = Math.max(this.position - 1, 0);
+        const turn = this.turnAtPosition[target];
+        while (target > 0 && this.turnAtPosition[target - 1] === turn) {
+            target--;
+        }
+        this.jumpTo(target);
+    }
+
+    /** Checks that re-simulating every action produces the winner recorded in the replay */
+    public verify(): ReplayVerification {
+        return {
+            expectedWinner: this.replay.winner,
+            actualWinner: this.finalWinner,
+            matches: this.replay.winner === this.finalWinner
+        };
+    }
+}
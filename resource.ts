@@ -131,6 +131,17 @@ export class Resource {
         return set;
     }
 
+    public getPrototype(): ResourcePrototype {
+        return {
+            energy: this.numeric,
+            maxEnergy: this.maxNumeric,
+            synthesis: this.types.Synthesis,
+            growth: this.types.Growth,
+            decay: this.types.Decay,
+            renewal: this.types.Renewal
+        };
+    }
+
     public getNumeric() {
         return this.numeric;
     }
@@ -22,7 +22,7 @@ interface ScenarioPlayerData {
 export interface ScenarioData {
     name: string;
     description: string;
-    playerSetups: [ScenarioPlayerData, ScenarioPlayerData];
+    playerSetups: ScenarioPlayerData[];
 }
 
 export class Scenario {
@@ -63,7 +63,11 @@ export class Scenario {
     }
 
     public apply(game: Game) {
-        for (let playerNumber = 0; playerNumber < 2; playerNumber++) {
+        const playerCount = Math.min(
+            this.playerSetups.length,
+            game.getRemainingPlayers().length
+        );
+        for (let playerNumber = 0; playerNumber < playerCount; playerNumber++) {
             const player = game.getPlayer(playerNumber);
             player.addLife(
                 this.playerSetups[playerNumber].lifeTotal - player.getLife()
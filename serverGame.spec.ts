@@ -0,0 +1,999 @@
+import { ServerGame } from 'app/game_model/serverGame';
+import { drawWinner, GamePhase, GameResult } from 'app/game_model/game';
+import {
+    GameFormat,
+    sharedLifeTeamFormat,
+    standardFormat,
+    threePlayerFormat,
+    twoVersusTwoFormat
+} from 'app/game_model/gameFormat';
+import {
+    ActionRejectionCode,
+    GameActionType,
+    isRejection,
+    PlayCardAction
+} from 'app/game_model/events/gameAction';
+import { isHiddenCard } from 'app/game_model/events/redaction';
+import { SyncDraw, SyncEventType } from 'app/game_model/events/syncEvent';
+import { getStarterDecks } from 'app/game_model/scenarios/decks';
+import { Card, GameZone } from 'app/game_model/card-types/card';
+import { Clock, ManualClock } from 'app/game_model/clock';
+import { Spell } from 'app/game_model/card-types/spell';
+import { Unit } from 'app/game_model/card-types/unit';
+import { DealDamage } from 'app/game_model/cards/mechanics/dealDamage';
+import { GainLife } from 'app/game_model/cards/mechanics/playerAid';
+import {
+    ReturnFromCrypt
+} from 'app/game_model/cards/mechanics/returnFromCrypt';
+import { Instant } from 'app/game_model/cards/mechanics/instant';
+import { SingleUnit } from 'app/game_model/cards/targeters/basicTargeter';
+import { pikeman } from 'app/game_model/cards/renewalCards';
+import { unbury } from 'app/game_model/cards/decayCards';
+import { Resource } from 'app/game_model/resource';
+import { ReplayRunner } from 'app/game_model/replayRunner';
+import Prando from 'prando';
+
+const startGame = (
+    seed: number = 1234,
+    format: GameFormat = standardFormat,
+    clock?: Clock
+) => {
+    const decks = getStarterDecks().slice(0, format.playerCount);
+    const game = new ServerGame('game', format, decks, seed, clock);
+    game.startGame();
+    // Every player keeps their opening hand
+    for (let player = 0; player < format.playerCount; player++) {
+        game.handleAction({
+            type: GameActionType.CardChoice,
+            player: player,
+            choice: []
+        });
+    }
+    return game;
+};
+
+let nextCardId = 0;
+
+/** Puts a card into a players hand, as if they had drawn it */
+const giveCard = (game: ServerGame, player: number, card: Card) => {
+    card.setOwner(player);
+    card.setId(`test${nextCardId++}`);
+    game.addCardToPool(card);
+    game.getPlayer(player).addToHand(card);
+    return card;
+};
+
+/** Deals a player more damage than they have life, then resolves their death */
+const killPlayer = (game: ServerGame, player: number) => {
+    game.getPlayer(player).takeDamage(100, pikeman());
+    game.resolvePlayerDeaths();
+};
+
+/** Passes until a new turn starts */
+const passTurn = (game: ServerGame) => {
+    const turnNum = game.getTurnNumber();
+    while (game.getTurnNumber() === turnNum) {
+        game.handleAction({
+            type: GameActionType.Pass,
+            player: game.getActivePlayer()
+        });
+    }
+};
+
+const damageSpell = (damage: number, instant: boolean) =>
+    new Spell(
+        instant ? 'TestInstant' : 'TestSpell',
+        instant ? 'Test Instant' : 'Test Spell',
+        '',
+        new Resource(0),
+        new SingleUnit(),
+        instant
+            ? [new Instant(), new DealDamage(damage)]
+            : [new DealDamage(damage)]
+    );
+
+/** Records the order cards take effect in */
+const recordResolution = (cards: Card[]) => {
+    const resolved: Card[] = [];
+    for (const card of cards) {
+        const play = card.play.bind(card);
+        spyOn(card, 'play').and.callFake((game: ServerGame) => {
+            resolved.push(card);
+            play(game);
+        });
+    }
+    return resolved;
+};
+
+/** Loads a snapshot of a game into a new game with the same decks */
+const restoreGame = (game: ServerGame) => {
+    const decks = getStarterDecks();
+    const restored = new ServerGame(
+        'restored',
+        standardFormat,
+        [decks[0], decks[1]],
+        1234
+    );
+    restored.restore(JSON.parse(JSON.stringify(game.snapshot())));
+    return restored;
+};
+
+const playCard = (game: ServerGame, card: Card, targets: Unit[] = []) =>
+    game.handleAction({
+        type: GameActionType.PlayCard,
+        player: card.getOwner(),
+        id: card.getId(),
+        targetIds: targets.map(target => target.getId())
+    });
+
+describe('ServerGame', () => {
+    describe('response phase', () => {
+        let game: ServerGame;
+        let active: number;
+        let opponent: number;
+
+        beforeEach(() => {
+            game = startGame();
+            active = game.getActivePlayer();
+            opponent = game.getNextPlayerNumber(active);
+        });
+
+        it('should give the opponent priority when a card is played', () => {
+            const target = game.playGeneratedUnit(opponent, pikeman());
+            const spell = giveCard(game, active, damageSpell(1, false));
+
+            playCard(game, spell, [target]);
+
+            expect(game.getPhase()).toBe(GamePhase.Response);
+            expect(game.getActivePlayer()).toBe(opponent);
+            expect(game.getStack().length).toBe(1);
+            expect(spell.getLocation()).toBe(GameZone.Stack);
+            expect(target.getLocation()).toBe(GameZone.Board);
+        });
+
+        it('should only let the player with priority play instants', () => {
+            const target = game.playGeneratedUnit(opponent, pikeman());
+            playCard(game, giveCard(game, active, damageSpell(1, false)), [
+                target
+            ]);
+            const slow = giveCard(game, opponent, damageSpell(1, false));
+            const instant = giveCard(game, active, damageSpell(1, true));
+
+            expect(slow.isPlayable(game)).toBe(false);
+            expect(instant.isPlayable(game)).toBe(false);
+        });
+
+        it('should resolve every card on the stack once every player passes', () => {
+            const target = game.playGeneratedUnit(opponent, pikeman());
+            // Only the two cards together deal enough damage to kill the target
+            target.buff(0, 1);
+            const spell = giveCard(game, active, damageSpell(1, false));
+            playCard(game, spell, [target]);
+            const instant = giveCard(game, opponent, damageSpell(1, true));
+            playCard(game, instant, [target]);
+
+            expect(game.getStack().map(entry => entry.card)).toEqual([
+                spell,
+                instant
+            ]);
+            expect(game.getActivePlayer()).toBe(active);
+            const resolved = recordResolution([spell, instant]);
+
+            game.handleAction({ type: GameActionType.Pass, player: active });
+
+            expect(resolved).toEqual([instant, spell]);
+            expect(game.getPhase()).toBe(GamePhase.Play1);
+            expect(game.getStack().length).toBe(0);
+            expect(game.getCrypt(opponent)).toContain(instant);
+            expect(game.getCrypt(active)).toContain(spell);
+            expect(target.getLocation()).toBe(GameZone.Crypt);
+        });
+
+        it('should resolve responses first and fizzle cards whose targets are gone', () => {
+            const target = game.playGeneratedUnit(opponent, pikeman());
+            const spell = giveCard(game, active, damageSpell(1, false));
+            playCard(game, spell, [target]);
+            // The response kills the target, so the original spell has nothing to hit
+            const instant = giveCard(game, opponent, damageSpell(5, true));
+            playCard(game, instant, [target]);
+            const resolved = recordResolution([spell, instant]);
+            game.handleAction({ type: GameActionType.Pass, player: active });
+
+            expect(resolved).toEqual([instant]);
+            expect(target.getLocation()).toBe(GameZone.Crypt);
+            expect(spell.getLocation()).toBe(GameZone.Crypt);
+            expect(game.getStack().length).toBe(0);
+        });
+    });
+
+    describe('snapshots', () => {
+        let game: ServerGame;
+        let active: number;
+
+        beforeEach(() => {
+            game = startGame();
+            active = game.getActivePlayer();
+        });
+
+        it('should restore a pending choice made for a mechanic', () => {
+            const buried = giveCard(game, active, pikeman());
+            game.getPlayer(active).removeCardFromHand(buried);
+            game.addToCrypt(buried);
+            const spell = giveCard(game, active, unbury());
+            const mechanic = spell.getMechanics()[0] as ReturnFromCrypt;
+            mechanic.onTrigger(spell, game);
+            expect(game.canSnapshot()).toBe(true);
+
+            const restored = restoreGame(game);
+
+            expect(restored.snapshot()).toEqual(game.snapshot());
+            const choice = restored.snapshot().choices[active];
+            expect(choice && choice.message).toBe('to draw');
+            restored.handleAction({
+                type: GameActionType.CardChoice,
+                player: active,
+                choice: [buried.getId()]
+            });
+            const drawn = restored.getCardById(buried.getId());
+            expect(drawn.getLocation()).toBe(GameZone.Hand);
+            expect(restored.getCrypt(active)).not.toContain(drawn);
+        });
+
+        it('should restore the parameters of mechanics granted to units', () => {
+            const unit = game.playGeneratedUnit(active, pikeman());
+            unit.addMechanic(new GainLife(3), game);
+
+            const restored = restoreGame(game);
+
+            const restoredUnit = restored.getCardById(unit.getId()) as Unit;
+            const toData = (target: Unit) =>
+                target.getMechanics().map(mechanic => mechanic.toData(target));
+            expect(toData(restoredUnit)).toEqual(toData(unit));
+            expect(restored.snapshot()).toEqual(game.snapshot());
+        });
+    });
+
+    describe('undo', () => {
+        let game: ServerGame;
+        let active: number;
+        let opponent: number;
+
+        beforeEach(() => {
+            game = startGame();
+            game.enableUndo();
+            active = game.getActivePlayer();
+            opponent = game.getNextPlayerNumber(active);
+        });
+
+        /** Takes a random legal action (other than offering a draw) for whoever can act */
+        const takeRandomAction = (rng: Prando) => {
+            const legal = [active, opponent]
+                .map(player =>
+                    game
+                        .getLegalActions(player)
+                        .filter(
+                            action =>
+                                action.type !== GameActionType.OfferDraw &&
+                                action.type !== GameActionType.AcceptDraw
+                        )
+                )
+                .find(actions => actions.length > 0);
+            if (!legal) {
+                throw new Error('No player can take an action');
+            }
+            const action = legal[rng.nextInt(0, legal.length - 1)];
+            game.handleAction(action);
+            return action;
+        };
+
+        const playResource = (player: number) =>
+            game.handleAction({
+                type: GameActionType.PlayResource,
+                player: player,
+                resourceType: 'basic'
+            });
+
+        it('should put the game back the way it was before the action', () => {
+            const before = game.snapshot();
+
+            playResource(active);
+            expect(game.canUndo(active)).toBe(true);
+            game.undo(active);
+
+            expect(game.snapshot()).toEqual(before);
+            expect(game.getPlayer(active).canPlayResource()).toBe(true);
+            expect(game.canUndo(active)).toBe(false);
+        });
+
+        it('should rewind the random number generator', () => {
+            const items = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9];
+            const expected = startGame().shuffle([...items]);
+            // As if playing the resource broke a tie at random
+            const player = game.getPlayer(active);
+            const play = player.playResource.bind(player);
+            spyOn(player, 'playResource').and.callFake((played: Resource) => {
+                game.shuffle([...items]);
+                play(played);
+            });
+
+            playResource(active);
+            game.undo(active);
+
+            expect(game.shuffle([...items])).toEqual(expected);
+        });
+
+        it('should play out the same way as a replay of the actions that were kept', () => {
+            const rng = new Prando(42);
+            for (let i = 0; i < 300 && game.getWinner() === -1; i++) {
+                const action = takeRandomAction(rng);
+                if (i % 5 === 4 && game.canUndo(action.player)) {
+                    game.undo(action.player);
+                }
+            }
+
+            const replay = new ReplayRunner(game.getReplay());
+            replay.jumpTo(replay.getActionCount());
+
+            expect(replay.getGame().snapshot()).toEqual(game.snapshot());
+        });
+    });
+
+    describe('clone', () => {
+        let game: ServerGame;
+        let active: number;
+        let opponent: number;
+
+        beforeEach(() => {
+            game = startGame();
+            active = game.getActivePlayer();
+            opponent = game.getNextPlayerNumber(active);
+        });
+
+        it('should copy the state of the game', () => {
+            game.playGeneratedUnit(active, pikeman());
+
+            const copy = game.clone();
+
+            expect(copy.snapshot()).toEqual(game.snapshot());
+            expect(copy.getReplay()).toEqual(game.getReplay());
+        });
+
+        it('should not change the original when the copy is played on', () => {
+            const target = game.playGeneratedUnit(opponent, pikeman());
+            const before = game.snapshot();
+
+            const copy = game.clone();
+            playCard(copy, giveCard(copy, active, damageSpell(5, false)), [
+                copy.getCardById(target.getId()) as Unit
+            ]);
+            copy.handleAction({ type: GameActionType.Pass, player: opponent });
+
+            expect(copy.getCardById(target.getId()).getLocation()).toBe(
+                GameZone.Crypt
+            );
+            expect(game.snapshot()).toEqual(before);
+            expect(target.getLocation()).toBe(GameZone.Board);
+        });
+
+        it('should make the same random decisions as the original', () => {
+            const items = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9];
+
+            const copy = game.clone();
+
+            expect(copy.shuffle([...items])).toEqual(game.shuffle([...items]));
+            expect(copy.getReplay()).toEqual(game.getReplay());
+        });
+
+        it('should keep the time each player has left', () => {
+            const format = new GameFormat();
+            format.turnTimeLimit = 30000;
+            format.gameClock = 600000;
+            const clock = new ManualClock();
+            const timed = startGame(1234, format, clock);
+            clock.advance(10000);
+
+            const copy = timed.clone();
+            clock.advance(5000);
+
+            const player = timed.getActivePlayer();
+            expect(copy.getTurnTimeRemaining()).toBe(15000);
+            expect(copy.getClockRemaining(player)).toBe(
+                timed.getClockRemaining(player)
+            );
+        });
+
+        it('should be fast enough to search many moves ahead', () => {
+            const start = Date.now();
+            for (let i = 0; i < 1000; i++) {
+                game.clone();
+            }
+            // A thousand clones take well under half a second, this leaves room for slow machines
+            expect(Date.now() - start).toBeLessThan(1000);
+        });
+    });
+
+    describe('time controls', () => {
+        let clock: ManualClock;
+        let format: GameFormat;
+
+        beforeEach(() => {
+            clock = new ManualClock();
+            format = new GameFormat();
+            format.turnTimeLimit = 30000;
+            format.gameClock = 600000;
+        });
+
+        it('should announce the time left to the player the game waits on', () => {
+            const game = startGame(1234, format, clock);
+            const active = game.getActivePlayer();
+
+            expect(game.getEventsFor(active)).toContain(
+                jasmine.objectContaining({
+                    type: SyncEventType.ClockUpdate,
+                    player: active,
+                    turnTimeRemaining: 30000,
+                    clocksRemaining: [600000, 600000]
+                })
+            );
+        });
+
+        it('should only run the clock of the player the game waits on', () => {
+            const game = startGame(1234, format, clock);
+            const active = game.getActivePlayer();
+
+            clock.advance(10000);
+
+            expect(game.getTurnTimeRemaining()).toBe(20000);
+            expect(game.getClockRemaining(active)).toBe(590000);
+            expect(
+                game.getClockRemaining(game.getNextPlayerNumber(active))
+            ).toBe(600000);
+        });
+
+        it('should pass for a player whose turn timer runs out', () => {
+            const game = startGame(1234, format, clock);
+            const active = game.getActivePlayer();
+
+            clock.advance(29999);
+            expect(game.checkTime()).toEqual([]);
+            clock.advance(1);
+            game.checkTime();
+
+            const actions = game.getReplay().actions;
+            expect(actions[actions.length - 1]).toEqual({
+                type: GameActionType.Pass,
+                player: active
+            });
+            expect(game.getWinner()).toBe(-1);
+        });
+
+        it('should end the game when a players clock runs out', () => {
+            format.turnTimeLimit = 0;
+            const game = startGame(1234, format, clock);
+            const active = game.getActivePlayer();
+
+            clock.advance(600000);
+            game.checkTime();
+
+            expect(game.getWinner()).toBe(game.getNextPlayerNumber(active));
+        });
+    });
+
+    describe('game results', () => {
+        let game: ServerGame;
+        let active: number;
+        let opponent: number;
+
+        /** Makes a card reduce every given player to 0 life when it resolves */
+        const killOnResolution = (card: Card, players: number[]) =>
+            spyOn(card, 'play').and.callFake(() => {
+                for (const number of players) {
+                    const player = game.getPlayer(number);
+                    player.takeDamage(player.getLife(), card);
+                }
+            });
+
+        beforeEach(() => {
+            game = startGame();
+            active = game.getActivePlayer();
+            opponent = game.getNextPlayerNumber(active);
+        });
+
+        it('should draw the game when every player dies at once', () => {
+            const target = game.playGeneratedUnit(opponent, pikeman());
+            const spell = giveCard(game, active, damageSpell(1, false));
+            killOnResolution(spell, [active, opponent]);
+
+            playCard(game, spell, [target]);
+            game.handleAction({ type: GameActionType.Pass, player: opponent });
+
+            expect(game.isDraw()).toBe(true);
+            expect(game.getReplay().winner).toBe(drawWinner);
+        });
+
+        it('should end the game as soon as the card that killed a player resolves', () => {
+            const target = game.playGeneratedUnit(opponent, pikeman());
+            const spell = giveCard(game, active, damageSpell(1, false));
+            killOnResolution(spell, [opponent]);
+            playCard(game, spell, [target]);
+            // The response resolves first, so the active player dies before their spell resolves
+            const instant = giveCard(game, opponent, damageSpell(1, true));
+            killOnResolution(instant, [active]);
+            playCard(game, instant, [target]);
+
+            game.handleAction({ type: GameActionType.Pass, player: active });
+
+            expect(game.getWinner()).toBe(opponent);
+            expect(spell.play).not.toHaveBeenCalled();
+        });
+
+        it('should draw the game once the turn limit is reached', () => {
+            const format = new GameFormat();
+            format.maxTurns = 1;
+            game = startGame(1234, format);
+
+            for (let i = 0; i < 10 && game.getWinner() === -1; i++) {
+                game.handleAction({
+                    type: GameActionType.Pass,
+                    player: game.getActivePlayer()
+                });
+            }
+
+            expect(game.isDraw()).toBe(true);
+            expect(game.getTurnNumber()).toBe(1);
+        });
+
+        it('should draw the game once every player agrees to it', () => {
+            expect(
+                game.handleAction({
+                    type: GameActionType.AcceptDraw,
+                    player: opponent
+                })
+            ).toEqual(
+                jasmine.objectContaining({
+                    code: ActionRejectionCode.NoDrawOffer
+                })
+            );
+
+            game.handleAction({ type: GameActionType.OfferDraw, player: active });
+            expect(game.getWinner()).toBe(-1);
+            game.handleAction({
+                type: GameActionType.AcceptDraw,
+                player: opponent
+            });
+
+            expect(game.isDraw()).toBe(true);
+        });
+    });
+
+    describe('starting player', () => {
+        let format: GameFormat;
+
+        beforeEach(() => {
+            format = new GameFormat();
+            format.randomStartingPlayer = true;
+        });
+
+        it('should be player 0 unless the format flips a coin', () => {
+            format.randomStartingPlayer = false;
+            for (let seed = 0; seed < 10; seed++) {
+                expect(startGame(seed, format).getStartingPlayer()).toBe(0);
+            }
+        });
+
+        it('should be chosen by the seed and recorded in the replay', () => {
+            const starters = new Set<number>();
+            for (let seed = 0; seed < 10; seed++) {
+                const game = startGame(seed, format);
+                const starter = game.getStartingPlayer();
+                starters.add(starter);
+
+                expect(startGame(seed, format).getStartingPlayer()).toBe(starter);
+                expect(game.getCurrentPlayer().getPlayerNumber()).toBe(starter);
+                expect(game.getReplay().startingPlayer).toBe(starter);
+            }
+            expect(Array.from(starters).sort()).toEqual([0, 1]);
+        });
+
+        it('should compensate the second player with the formats bonuses', () => {
+            const uncompensated = startGame(1234, format);
+            format.secondPlayerCards = 1;
+            format.secondPlayerLife = 3;
+            format.secondPlayerEnergy = 2;
+            const game = startGame(1234, format);
+            const second = game.getNextPlayerNumber(game.getStartingPlayer());
+            const energy = (from: ServerGame) =>
+                from.getPlayer(second).getPool().getNumeric();
+
+            expect(game.getPlayer(second).getHand().length).toBe(
+                uncompensated.getPlayer(second).getHand().length + 1
+            );
+            expect(game.getPlayer(second).getLife()).toBe(
+                uncompensated.getPlayer(second).getLife() + 3
+            );
+            passTurn(game);
+            passTurn(uncompensated);
+            expect(energy(game)).toBe(energy(uncompensated) + 2);
+            passTurn(game);
+            passTurn(uncompensated);
+            passTurn(game);
+            passTurn(uncompensated);
+            expect(energy(game)).toBe(energy(uncompensated));
+        });
+    });
+
+    describe('free-for-all', () => {
+        let game: ServerGame;
+
+        const pass = () =>
+            game.handleAction({
+                type: GameActionType.Pass,
+                player: game.getActivePlayer()
+            });
+
+        beforeEach(() => {
+            game = startGame(1234, threePlayerFormat);
+        });
+
+        it('should give each player a turn in order', () => {
+            const turns = [game.getCurrentPlayer().getPlayerNumber()];
+            for (let i = 0; i < 3; i++) {
+                passTurn(game);
+                turns.push(game.getCurrentPlayer().getPlayerNumber());
+            }
+
+            expect(turns).toEqual([0, 1, 2, 0]);
+        });
+
+        it('should pass priority around the table before resolving the stack', () => {
+            const target = game.playGeneratedUnit(2, pikeman());
+            const spell = giveCard(game, 0, damageSpell(5, false));
+            playCard(game, spell, [target]);
+
+            expect(game.getPriorityPlayer()).toBe(1);
+            pass();
+            expect(game.getPriorityPlayer()).toBe(2);
+            expect(target.getLocation()).toBe(GameZone.Board);
+            pass();
+
+            expect(game.getPhase()).toBe(GamePhase.Play1);
+            expect(target.getLocation()).toBe(GameZone.Crypt);
+        });
+
+        it('should only let the attacked player block', () => {
+            const attacker = game.playGeneratedUnit(0, pikeman());
+            attacker.refresh();
+            const bystander = game.playGeneratedUnit(1, pikeman());
+            const defender = game.playGeneratedUnit(2, pikeman());
+            game.handleAction({
+                type: GameActionType.ToggleAttack,
+                player: 0,
+                unitId: attacker.getId(),
+                target: 2
+            });
+            // Declaring the attack opens a response window for the other players
+            for (let i = 0; i < 3; i++) {
+                pass();
+            }
+
+            expect(game.getPhase()).toBe(GamePhase.Block);
+            expect(game.getActivePlayer()).toBe(2);
+            expect(
+                game.handleAction({
+                    type: GameActionType.DeclareBlocker,
+                    player: 1,
+                    blockerId: bystander.getId(),
+                    blockedId: attacker.getId()
+                })
+            ).toEqual(
+                jasmine.objectContaining({
+                    code: ActionRejectionCode.NotYourTurn
+                })
+            );
+            expect(
+                isRejection(
+                    game.handleAction({
+                        type: GameActionType.DeclareBlocker,
+                        player: 2,
+                        blockerId: defender.getId(),
+                        blockedId: attacker.getId()
+                    })
+                )
+            ).toBe(false);
+        });
+
+        it('should remove eliminated players until one remains', () => {
+            game.playGeneratedUnit(1, pikeman());
+
+            killPlayer(game, 1);
+
+            expect(game.isEliminated(1)).toBe(true);
+            expect(game.getBoard().getPlayerUnits(1)).toEqual([]);
+            expect(game.getWinner()).toBe(-1);
+            expect(game.getOpponents(0)).toEqual([2]);
+            passTurn(game);
+            expect(game.getCurrentPlayer().getPlayerNumber()).toBe(2);
+            expect(game.getLegalActions(1)).toEqual([]);
+
+            killPlayer(game, 0);
+
+            expect(game.getWinner()).toBe(2);
+        });
+    });
+
+    describe('teams', () => {
+        it('should win together once every opponent is eliminated', () => {
+            const game = startGame(1234, twoVersusTwoFormat);
+
+            killPlayer(game, 0);
+            killPlayer(game, 1);
+
+            expect(game.getWinner()).toBe(-1);
+            expect(game.getOpponents(2)).toEqual([3]);
+
+            killPlayer(game, 3);
+
+            expect(game.getWinningTeam()).toBe(0);
+            expect([0, 1, 2, 3].map(player => game.getResult(player))).toEqual([
+                GameResult.Win,
+                GameResult.Loss,
+                GameResult.Win,
+                GameResult.Loss
+            ]);
+        });
+
+        it('should share damage between teammates who share life', () => {
+            const game = startGame(1234, sharedLifeTeamFormat);
+            const life = game.getPlayer(0).getLife();
+
+            game.getPlayer(0).takeDamage(5, pikeman());
+
+            expect(game.getPlayer(2).getLife()).toBe(life - 5);
+            expect(game.getPlayer(1).getLife()).toBe(life);
+        });
+
+        it('should eliminate teammates who share life together', () => {
+            const game = startGame(1234, sharedLifeTeamFormat);
+
+            killPlayer(game, 1);
+
+            expect(game.isEliminated(3)).toBe(true);
+            expect(game.getWinningTeam()).toBe(0);
+        });
+    });
+
+    describe('action rejections', () => {
+        let game: ServerGame;
+        let active: number;
+        let opponent: number;
+        let target: Unit;
+
+        const rejection = (code: ActionRejectionCode) =>
+            jasmine.objectContaining({
+                code: code,
+                message: jasmine.any(String)
+            });
+
+        beforeEach(() => {
+            game = startGame();
+            active = game.getActivePlayer();
+            opponent = game.getNextPlayerNumber(active);
+            target = game.playGeneratedUnit(opponent, pikeman());
+        });
+
+        it('should reject cards that are not in the players hand', () => {
+            const spell = giveCard(game, opponent, damageSpell(1, false));
+            const eventCount = game.getPastEvents().length;
+
+            expect(
+                game.handleAction({
+                    type: GameActionType.PlayCard,
+                    player: active,
+                    id: spell.getId(),
+                    targetIds: [target.getId()]
+                })
+            ).toEqual(rejection(ActionRejectionCode.UnknownCard));
+            expect(game.getPastEvents().length).toBe(eventCount);
+        });
+
+        it('should reject cards played outside the players turn', () => {
+            const spell = giveCard(game, opponent, damageSpell(1, false));
+
+            expect(playCard(game, spell, [target])).toEqual(
+                rejection(ActionRejectionCode.NotYourTurn)
+            );
+        });
+
+        it('should reject cards the player can not afford', () => {
+            const costly = new Spell(
+                'TestCostly',
+                'Test Costly',
+                '',
+                new Resource(50),
+                new SingleUnit(),
+                [new DealDamage(1)]
+            );
+
+            expect(
+                playCard(game, giveCard(game, active, costly), [target])
+            ).toEqual(rejection(ActionRejectionCode.CannotAfford));
+        });
+
+        it('should reject targets that are not on the board', () => {
+            const spell = giveCard(game, active, damageSpell(1, false));
+
+            expect(
+                game.handleAction({
+                    type: GameActionType.PlayCard,
+                    player: active,
+                    id: spell.getId(),
+                    targetIds: ['missing']
+                })
+            ).toEqual(rejection(ActionRejectionCode.InvalidTarget));
+        });
+
+        it('should reject a second resource in one turn', () => {
+            const playResource = () =>
+                game.handleAction({
+                    type: GameActionType.PlayResource,
+                    player: active,
+                    resourceType: 'basic'
+                });
+
+            expect(isRejection(playResource())).toBe(false);
+            expect(playResource()).toEqual(
+                rejection(ActionRejectionCode.AlreadyPlayedResource)
+            );
+        });
+
+        it('should reject resources played during a response', () => {
+            playCard(game, giveCard(game, active, damageSpell(1, false)), [
+                target
+            ]);
+
+            expect(
+                game.handleAction({
+                    type: GameActionType.PlayResource,
+                    player: active,
+                    resourceType: 'basic'
+                })
+            ).toEqual(rejection(ActionRejectionCode.WrongPhase));
+        });
+
+        it('should reject other actions while a choice is pending', () => {
+            const decks = getStarterDecks();
+            const mulliganing = new ServerGame(
+                'game',
+                standardFormat,
+                [decks[0], decks[1]],
+                1234
+            );
+            mulliganing.startGame();
+
+            const result = mulliganing.handleAction({
+                type: GameActionType.Pass,
+                player: mulliganing.getActivePlayer()
+            });
+
+            expect(result).toEqual(rejection(ActionRejectionCode.PendingChoice));
+        });
+    });
+
+    describe('legal actions', () => {
+        let game: ServerGame;
+        let active: number;
+        let opponent: number;
+
+        beforeEach(() => {
+            game = startGame();
+            active = game.getActivePlayer();
+            opponent = game.getNextPlayerNumber(active);
+        });
+
+        it('should list a play of a card for each target it could have', () => {
+            const friendly = game.playGeneratedUnit(active, pikeman());
+            const enemy = game.playGeneratedUnit(opponent, pikeman());
+            const spell = giveCard(game, active, damageSpell(1, false));
+
+            const plays = game
+                .getLegalActions(active)
+                .filter(
+                    action =>
+                        action.type === GameActionType.PlayCard &&
+                        action.id === spell.getId()
+                ) as PlayCardAction[];
+
+            expect(plays.map(play => play.targetIds)).toEqual(
+                jasmine.arrayWithExactContents([
+                    [friendly.getId()],
+                    [enemy.getId()]
+                ])
+            );
+        });
+
+        it('should not list actions for a player without priority', () => {
+            game.playGeneratedUnit(active, pikeman());
+            giveCard(game, opponent, damageSpell(1, true));
+
+            expect(game.getLegalActions(opponent)).toEqual([]);
+            expect(game.getLegalActions(active)).toContain({
+                type: GameActionType.Pass,
+                player: active
+            });
+        });
+
+        it('should only list actions the game accepts', () => {
+            for (let step = 0; step < 30 && game.getWinner() === -1; step++) {
+                const actions = [0, 1]
+                    .map(player => game.getLegalActions(player))
+                    .reduce((all, playerActions) => all.concat(playerActions));
+                expect(actions.length).toBeGreaterThan(0);
+                for (const action of actions) {
+                    const result = game.clone().handleAction(action);
+                    expect(isRejection(result)).toBe(false, action);
+                }
+                game.handleAction(actions[(step * 7) % actions.length]);
+            }
+        });
+    });
+
+    describe('random numbers', () => {
+        const handIds = (game: ServerGame, player: number) =>
+            game
+                .getPlayer(player)
+                .getHand()
+                .map(card => card.getId());
+        const items = Array.from(Array(20).keys());
+
+        it('should play out the same way in games with the same seed', () => {
+            const game = startGame(42);
+            const sameSeed = startGame(42);
+
+            expect(handIds(sameSeed, 0)).toEqual(handIds(game, 0));
+            expect(handIds(sameSeed, 1)).toEqual(handIds(game, 1));
+            expect(sameSeed.shuffle(items)).toEqual(game.shuffle(items));
+        });
+
+        it('should not share random numbers between games', () => {
+            const game = startGame(42);
+            const otherGame = startGame(42);
+            const expected = startGame(42).shuffle(items);
+
+            otherGame.shuffle(items);
+
+            expect(game.shuffle(items)).toEqual(expected);
+            expect(handIds(startGame(7), 0)).not.toEqual(handIds(game, 0));
+        });
+    });
+
+    describe('event redaction', () => {
+        it('should keep drawn cards hidden from opponents after they are played', () => {
+            const game = startGame();
+            const active = game.getActivePlayer();
+            const opponent = game.getNextPlayerNumber(active);
+            const draws = () =>
+                game
+                    .getEventsFor(opponent)
+                    .filter(
+                        event =>
+                            event.type === SyncEventType.Draw &&
+                            !event.fatigue &&
+                            event.playerNo === active
+                    ) as SyncDraw[];
+            const drawn = draws()[0].card;
+            expect(isHiddenCard(drawn)).toBe(true);
+
+            const card = game.getCardById(drawn.id);
+            game.getPlayer(active).removeCardFromHand(card);
+            game.addToCrypt(card);
+
+            expect(isHiddenCard(draws()[0].card)).toBe(true);
+            expect(game.getEventsFor(active)).toContain(
+                jasmine.objectContaining({
+                    type: SyncEventType.Draw,
+                    card: card.getPrototype()
+                })
+            );
+        });
+    });
+});
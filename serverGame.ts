@@ -1,15 +1,42 @@
+import { clone, findLastIndex, remove } from 'lodash';
 import { isArray } from 'util';
-import { CardType, Card } from './card-types/card';
+import { CardType, Card, CardPrototype, GameZone } from './card-types/card';
+import { cardList } from './cards/cardList';
+import { MechanicData, mechanicList } from './cards/mechanicList';
+import { Clock, systemClock } from './clock';
 import { DeckList, SavedDeck } from './deckList';
 import { Enchantment } from './card-types/enchantment';
-import { Game, GamePhase } from './game';
+import { drawWinner, Game, GamePhase } from './game';
 import { GameFormat, standardFormat } from './gameFormat';
+import { GameFormatData, saveFormat } from './formatLoader';
 import { Item } from './card-types/item';
 import { Player } from './player';
+import { SpectatorStream } from './spectatorStream';
+import {
+    getPublicState,
+    hashPublicState,
+    PublicGameState,
+    StateCheckpoint
+} from './stateHash';
 import { Unit } from './card-types/unit';
 import Prando from 'prando';
-import { GameSyncEvent, SyncEventType } from './events/syncEvent';
 import {
+    redactEvent,
+    redactSnapshot,
+    spectatorPlayerNumber
+} from './events/redaction';
+import {
+    GameResync,
+    GameSyncEvent,
+    ResyncType,
+    SyncEventType
+} from './events/syncEvent';
+import {
+    ActionRejection,
+    ActionRejectionCode,
+    ActionResult,
+    isRejection,
+    rejectAction,
     GameActionSystem,
     GameActionType,
     GameAction,
@@ -20,105 +47,198 @@ import {
     PlayCardAction,
     CardChoiceAction,
     ModifyEnchantmentAction,
+    OfferDrawAction,
+    AcceptDrawAction,
     DistributeDamageAction
 } from './events/gameAction';
 
 export interface GameReplay {
+    // The format the game was played in
+    format: GameFormatData;
     seed: string | number;
     actions: GameAction[];
-    deckLists: [SavedDeck, SavedDeck];
+    deckLists: SavedDeck[];
+    // The player who won, -1 if the game was unfinished or drawWinner if it was drawn
     winner: number;
+    // The player who took the first turn
+    startingPlayer: number;
+}
+
+interface UndoPoint {
+    // The player who took the action
+    player: number;
+    turnNum: number;
+    // The number of actions that had been taken before it
+    actionCount: number;
 }
 
 export class ServerGame extends Game {
-    private static rng: Prando;
-    private static seed: string | number;
     protected actionSystem = new GameActionSystem(this);
+    // The source of all randomness in this game (shuffling, tie breaking and card ids)
+    protected rng: Prando;
 
     // Replay information
-    protected seed: string | number = 0;
+    protected seed: string | number;
     protected actionLog: GameAction[] = [];
-    protected deckLists: [DeckList, DeckList];
+    protected deckLists: DeckList[];
 
-    public static setSeed(seed: string | number) {
-        this.rng = new Prando(seed);
+    protected spectators: SpectatorStream[] = [];
+    // The players who have offered or accepted a draw this turn
+    protected drawOffers = new Set<number>();
+
+    // The states before each action that can still be undone, oldest first
+    protected undoHistory: UndoPoint[] = [];
+    protected undoEnabled = false;
+    // A state hash is attached to the start of every nth turn, 0 disables checkpoints
+    protected checkpointInterval = 1;
+    // The public state at the most recent checkpoints, by turn number
+    protected checkpointStates = new Map<number, PublicGameState>();
+    protected maxStoredCheckpoints = 10;
+    // The most events a player who fell behind is sent before they are sent a snapshot instead
+    protected maxReplayedEvents = 200;
+
+    // Time controls
+    protected clocksRemaining: number[];
+    protected turnTimeRemaining = 0;
+    // The player whose time is running, or -1 if no ones is
+    protected timedPlayer = -1;
+    protected lastClockTime = 0;
+
+    private static generateSeed() {
+        return Math.floor(Math.random() * Number.MAX_SAFE_INTEGER);
     }
 
+    /**
+     * Creates a game between the given decks, one for each player in the format.
+     *
+     * Every random decision the game makes is drawn from a generator seeded with the given seed,
+     * so two games with the same seed, decks and actions will always play out identically.
+     *
+     * @param seed - The seed for the games random number generator. A random seed is used if none is given.
+     * @param clock - The source of time for the formats time controls
+     */
     constructor(
         name: string,
         format: GameFormat = standardFormat,
-        deckLists: [DeckList, DeckList]
+        deckLists: DeckList[],
+        seed: string | number = ServerGame.generateSeed(),
+        protected clock: Clock = systemClock
     ) {
         super(name, format);
+        if (deckLists.length !== this.format.playerCount) {
+            throw new Error(
+                `Expected ${this.format.playerCount} decks but got ${deckLists.length}`
+            );
+        }
         this.addActionHandlers();
 
-        this.seed = ServerGame.seed;
+        this.seed = seed;
+        this.rng = new Prando(seed);
         this.deckLists = deckLists;
+        this.clocksRemaining = deckLists.map(() => this.format.gameClock);
 
         const decks = deckLists.map(deckList => {
             const deck = deckList.toDeck().map(fact => {
                 const card = fact();
+                card.setId(this.rng.nextString(12, '0123456789abcdef'));
                 this.cardPool.set(card.getId(), card);
                 return card;
             });
             return this.shuffle(deck);
         });
 
-        this.players = [
-            new Player(
-                this,
-                decks[0],
-                0,
-                this.format.initialResource[0],
-                this.format.initialLife[0]
-            ),
-            new Player(
-                this,
-                decks[1],
-                1,
-                this.format.initialResource[1],
-                this.format.initialLife[1]
-            )
-        ];
+        this.players = decks.map(
+            (deck, number) =>
+                new Player(
+                    this,
+                    deck,
+                    number,
+                    this.format.initialResource[number],
+                    this.format.initialLife[number]
+                )
+        );
 
         this.addDeathHandlers();
     }
 
+    public getSeed() {
+        return this.seed;
+    }
+
+    protected buildCard(proto: CardPrototype): Card {
+        const card = cardList.getCard(proto.data);
+        card.setId(proto.id);
+        card.setOwner(proto.owner);
+        return card;
+    }
+
+    protected buildMechanic(data: MechanicData) {
+        return mechanicList.buildInstance(data, cardList);
+    }
+
+    /**
+     * Creates an independent copy of the game that moves can be tried out on without affecting the original.
+     *
+     * The copy is rebuilt from a snapshot, so every card and event handler in it is bound to the copy.
+     * It draws from a copy of the originals random number generator, so the copy makes the same random decisions
+     * the original would without changing the randomness of the original.
+     * It shares the originals clock and starts with the same time remaining, so time controls run on in the copy.
+     */
+    public clone(): ServerGame {
+        const copy = new ServerGame(
+            this.name,
+            this.format,
+            this.deckLists.map(() => new DeckList(this.format)),
+            this.seed,
+            this.clock
+        );
+        copy.restore(this.snapshot());
+        copy.rng = clone(this.rng);
+        copy.id = this.id;
+        copy.deckLists = this.deckLists;
+        copy.actionLog = [...this.actionLog];
+        copy.events = [...this.events];
+        copy.drawOffers = new Set(this.drawOffers);
+        copy.undoEnabled = this.undoEnabled;
+        copy.undoHistory = [...this.undoHistory];
+        copy.checkpointInterval = this.checkpointInterval;
+        copy.checkpointStates = new Map(this.checkpointStates);
+        copy.maxReplayedEvents = this.maxReplayedEvents;
+        copy.clocksRemaining = [...this.clocksRemaining];
+        copy.turnTimeRemaining = this.turnTimeRemaining;
+        copy.timedPlayer = this.timedPlayer;
+        copy.lastClockTime = this.lastClockTime;
+        return copy;
+    }
+
     public getReplay(): GameReplay {
         return {
+            format: saveFormat(this.format),
             seed: this.seed,
             actions: [...this.actionLog],
-            deckLists: [...this.deckLists.map(deck => deck.getSavable())] as [
-                SavedDeck,
-                SavedDeck
-            ],
-            winner: this.getWinner()
+            deckLists: this.deckLists.map(deck => deck.getSavable()),
+            winner: this.getWinner(),
+            startingPlayer: this.startingPlayer
         };
     }
 
     public getResponsiblePlayer() {
-        if (
-            this.currentChoices[0] === null &&
-            this.currentChoices[1] === null
-        ) {
+        const waiting = this.players
+            .map(player => player.getPlayerNumber())
+            .filter(number => this.currentChoices[number] !== null);
+        if (waiting.length === 0) {
             return this.getActivePlayer();
-        } else if (
-            this.currentChoices[0] !== null &&
-            this.currentChoices[0] !== null
-        ) {
-            return ServerGame.rng.nextInt(0, 1);
-        } else if (this.currentChoices[0] !== null) {
-            return 0;
-        } else {
-            return 1;
+        } else if (waiting.length === 1) {
+            return waiting[0];
         }
+        return waiting[this.rng.nextInt(0, waiting.length - 1)];
     }
 
     public shuffle<T>(items: T[]): T[] {
         const copies = [...items];
         const end = copies.length - 1;
         for (let i = 0; i < end; i++) {
-            const swapPos = ServerGame.rng.nextInt(i + 1, end);
+            const swapPos = this.rng.nextInt(i + 1, end);
             const temp = copies[swapPos];
             copies[swapPos] = copies[i];
             copies[i] = temp;
@@ -127,10 +247,22 @@ export class ServerGame extends Game {
     }
 
     public startGame() {
-        this.turn = 0;
-        for (let i = 0; i < this.players.length; i++) {
-            this.players[i].drawCards(this.format.initialDraw[i]);
-        }
+        this.setUpGame();
+        this.startTiming();
+        this.broadcastToSpectators(this.events);
+        return [...this.events];
+    }
+
+    /** Chooses the starting player, deals the opening hands and starts the first turn */
+    private setUpGame() {
+        const startingPlayer = this.format.randomStartingPlayer
+            ? this.rng.nextInt(0, this.players.length - 1)
+            : 0;
+        this.addGameEvent({
+            type: SyncEventType.GameStart,
+            startingPlayer: startingPlayer
+        });
+        this.dealOpeningHands(startingPlayer);
         this.players[this.turn].startTurn();
         this.getCurrentPlayerUnits().forEach(unit => unit.refresh());
         this.phase = GamePhase.Play1;
@@ -142,25 +274,53 @@ export class ServerGame extends Game {
             turn: this.turn,
             turnNum: this.turnNum
         });
-        return [...this.events];
+    }
+
+    public nextTurn() {
+        // Draw offers only stand until the end of the turn they were made in
+        this.drawOffers.clear();
+        super.nextTurn();
     }
 
     // Server side phase logic
     protected endPhaseOne() {
         if (this.isAttacking()) {
-            this.gameEvents.playerAttacked.trigger({
-                target: this.getOtherPlayerNumber(this.getActivePlayer())
-            });
-            if (this.blockersExist()) {
-                this.changePhase(GamePhase.Block);
-            } else {
-                this.resolveCombat();
-            }
+            this.declareAttack();
         } else {
             this.startEndPhase();
         }
     }
 
+    protected startCombat() {
+        if (!this.isAttacking()) {
+            this.startEndPhase();
+        } else if (this.blockersExist()) {
+            this.changePhase(GamePhase.Block);
+        } else {
+            this.resolveCombat();
+        }
+    }
+
+    protected endResponsePhase() {
+        // Priority passes around the table until it returns to whoever added the last entry to the stack
+        const lastEntry = this.stack[this.stack.length - 1];
+        const next = this.getNextPlayerNumber(this.priorityPlayer);
+        if (
+            lastEntry &&
+            next !== lastEntry.player &&
+            !this.isEliminated(lastEntry.player)
+        ) {
+            this.openResponseWindow(next);
+            return;
+        }
+        const attackDeclared = this.resolveStack();
+        if (attackDeclared) {
+            this.startCombat();
+        } else {
+            this.changePhase(this.phase);
+        }
+    }
+
     protected endBlockPhase() {
         const damageDistribution = this.generateDamageDistribution();
         const reorderables = this.getModableDamageDistributions();
@@ -185,10 +345,14 @@ export class ServerGame extends Game {
             case GamePhase.DamageDistribution:
                 this.resolveCombat();
                 break;
+            case GamePhase.Response:
+                this.endResponsePhase();
+                break;
         }
     }
 
     public queryCards(
+        player: number,
         getCards: (game: ServerGame) => Card[],
         callback: (cards: Card[]) => void
     ) {
@@ -196,7 +360,9 @@ export class ServerGame extends Game {
         callback(cards);
         this.addGameEvent({
             type: SyncEventType.QueryResult,
-            cards: cards.map(card => card.getPrototype())
+            player: player,
+            cards: cards.map(card => card.getPrototype()),
+            zones: cards.map(card => card.getLocation())
         });
     }
 
@@ -206,28 +372,418 @@ export class ServerGame extends Game {
      * Handles a players action and returns a list of events that
      * resulted from that action.
      *
+     * If the action is illegal it returns the reason it was rejected instead.
      */
-    public handleAction(action: GameAction): GameSyncEvent[] | null {
+    public handleAction(action: GameAction): GameSyncEvent[] | ActionRejection {
         const mark = this.events.length;
+        this.updateClocks();
         if (
             action.type !== GameActionType.CardChoice &&
             action.type !== GameActionType.Quit &&
-            (this.currentChoices[0] !== null || this.currentChoices[1] !== null)
+            action.type !== GameActionType.OfferDraw &&
+            action.type !== GameActionType.AcceptDraw &&
+            !this.canTakeAction()
         ) {
-            console.error(
-                `Cant take action, ${GameActionType[action.type]} waiting for`,
-                this.currentChoices
+            return rejectAction(
+                ActionRejectionCode.PendingChoice,
+                'A card choice must be made before any other action is taken.'
             );
-            return null;
         }
-        const sig = this.actionSystem.handleAction(action);
+        const undoPoint = this.createUndoPoint(action);
+        const result = this.applyAction(action);
+        if (result !== true) {
+            return result;
+        }
+        this.startTiming();
+        const events = this.events.slice(mark);
+        this.recordUndoPoint(undoPoint, events);
+        this.broadcastToSpectators(events);
+        return events;
+    }
+
+    /** Carries out an action and records it, returning true if it was legal or the reason it was rejected */
+    private applyAction(action: GameAction): ActionResult {
+        const result = this.actionSystem.handleAction(action);
         this.actionLog.push(action);
-        if (sig !== true) {
+        if (result === true) {
+            this.resolvePlayerDeaths();
+            this.passForEliminatedPlayers();
+        }
+        return result;
+    }
+
+    // Undo -------------------------------------------------------------
+
+    /** Allows actions to be undone, for casual games such as hotseat play or practice against the A.I */
+    public enableUndo() {
+        this.undoEnabled = true;
+    }
+
+    private createUndoPoint(action: GameAction): UndoPoint | null {
+        if (!this.undoEnabled || !this.canSnapshot()) {
             return null;
         }
+        return {
+            player: action.player,
+            turnNum: this.turnNum,
+            actionCount: this.actionLog.length
+        };
+    }
+
+    /**
+     * Remembers the state before an action so it can be undone.
+     * Actions can't be undone past a point where hidden information was revealed (such as a draw
+     * or a deck search), or where the state could not be saved.
+     */
+    private recordUndoPoint(point: UndoPoint | null, events: GameSyncEvent[]) {
+        const revealed = events.some(
+            event =>
+                (event.type === SyncEventType.Draw && !event.fatigue) ||
+                event.type === SyncEventType.QueryResult
+        );
+        if (!point || revealed || this.winner !== -1) {
+            this.undoHistory = [];
+            return;
+        }
+        this.undoHistory.push(point);
+    }
+
+    /** Checks if a player has an action they can undo */
+    public canUndo(player: number) {
+        return this.undoHistory.some(point => point.player === player);
+    }
+
+    /**
+     * Undoes the last action a player took, along with every action taken after it.
+     *
+     * The game is rebuilt by replaying the actions that were kept, so it plays out the same way
+     * as a replay of them would (including the random number generator and any event handlers
+     * that cards added during play, which a snapshot can't hold).
+     *
+     * @param wholeTurn - Undo every action taken this turn instead (as long as they can all be undone)
+     */
+    public undo(
+        player: number,
+        wholeTurn: boolean = false
+    ): GameSyncEvent[] | ActionRejection {
+        const index = wholeTurn
+            ? this.undoHistory.findIndex(
+                  point => point.turnNum === this.turnNum
+              )
+            : findLastIndex(
+                  this.undoHistory,
+                  point => point.player === player
+              );
+        if (!this.undoEnabled || index === -1) {
+            return rejectAction(
+                ActionRejectionCode.CannotUndo,
+                'There is no action that can be undone.'
+            );
+        }
+        const mark = this.events.length;
+        const point = this.undoHistory[index];
+        this.replayActions(this.actionLog.slice(0, point.actionCount));
+        this.undoHistory = this.undoHistory.slice(0, index);
+        this.drawOffers.clear();
+        this.addGameEvent({
+            type: SyncEventType.Undone,
+            player: player,
+            snapshot: this.snapshot()
+        });
+        this.timedPlayer = -1;
+        this.startTiming();
+        const events = this.events.slice(mark);
+        this.broadcastToSpectators(events);
+        return events;
+    }
+
+    /**
+     * Returns the game to its initial state and plays the given actions again.
+     * The events already sent are kept, the replayed actions don't add to them.
+     */
+    private replayActions(actions: GameAction[]) {
+        const initial = new ServerGame(
+            this.name,
+            this.format,
+            this.deckLists,
+            this.seed,
+            this.clock
+        );
+        const events = this.events;
+        this.restore(initial.snapshot());
+        this.rng = initial.rng;
+        this.actionLog = [];
+        this.events = [];
+        this.setUpGame();
+        actions.forEach(action => this.applyAction(action));
+        this.events = events;
+    }
+
+    // Time Controls ----------------------------------------------------
+
+    private hasTimeControls() {
+        return this.format.turnTimeLimit > 0 || this.format.gameClock > 0;
+    }
+
+    /** Gets the player the game is waiting on, players with a choice to make come first */
+    private getWaitingPlayer() {
+        if (this.winner !== -1) {
+            return -1;
+        }
+        const choosing = this.currentChoices.findIndex(
+            choice => choice !== null
+        );
+        return choosing !== -1 ? choosing : this.getActivePlayer();
+    }
+
+    /** Charges the time since the clock was last read to the player whose time is running */
+    private updateClocks() {
+        const now = this.clock.now();
+        const elapsed = now - this.lastClockTime;
+        this.lastClockTime = now;
+        if (this.timedPlayer === -1) {
+            return;
+        }
+        this.turnTimeRemaining -= elapsed;
+        this.clocksRemaining[this.timedPlayer] -= elapsed;
+    }
+
+    /**
+     * Starts the time of the player the game is waiting on.
+     * Their turn timer is reset if the game was waiting on someone else.
+     */
+    private startTiming() {
+        if (!this.hasTimeControls()) {
+            return;
+        }
+        const waiting = this.getWaitingPlayer();
+        this.lastClockTime = this.clock.now();
+        if (waiting === this.timedPlayer) {
+            return;
+        }
+        this.timedPlayer = waiting;
+        this.turnTimeRemaining = this.format.turnTimeLimit;
+        if (waiting === -1) {
+            return;
+        }
+        this.addGameEvent({
+            type: SyncEventType.ClockUpdate,
+            player: waiting,
+            turnTimeRemaining: this.turnTimeRemaining,
+            clocksRemaining: [...this.clocksRemaining]
+        });
+    }
+
+    /**
+     * Enforces the formats time controls. This should be called regularly while the game is running.
+     *
+     * A player whose turn timer has run out passes (or makes the smallest choice they can) until the game
+     * stops waiting on them. A player whose game clock has run out forfeits as if they had quit.
+     * Both are taken as actions, so they appear in the games replay.
+     *
+     * Returns the events that resulted, which are also sent to spectators.
+     */
+    public checkTime(): GameSyncEvent[] {
+        const mark = this.events.length;
+        while (this.hasTimeControls() && this.timedPlayer !== -1) {
+            this.updateClocks();
+            const player = this.timedPlayer;
+            let action: GameAction;
+            if (
+                this.format.gameClock > 0 &&
+                this.clocksRemaining[player] <= 0
+            ) {
+                action = { type: GameActionType.Quit, player: player };
+            } else if (
+                this.format.turnTimeLimit > 0 &&
+                this.turnTimeRemaining <= 0
+            ) {
+                action = this.getTimeoutAction(player);
+            } else {
+                break;
+            }
+            if (isRejection(this.handleAction(action))) {
+                break;
+            }
+        }
         return this.events.slice(mark);
     }
 
+    /** Gets the action taken on behalf of a player who ran out of time */
+    private getTimeoutAction(player: number): GameAction {
+        const choice = this.currentChoices[player];
+        if (!choice) {
+            return { type: GameActionType.Pass, player: player };
+        }
+        return {
+            type: GameActionType.CardChoice,
+            player: player,
+            choice: Array.from(choice.validCards)
+                .slice(0, choice.min)
+                .map(card => card.getId())
+        };
+    }
+
+    /** Gets the time a player has left on their game clock, in milliseconds */
+    public getClockRemaining(player: number) {
+        this.updateClocks();
+        return this.clocksRemaining[player];
+    }
+
+    /** Gets the time left on the turn timer of the player the game is waiting on, in milliseconds */
+    public getTurnTimeRemaining() {
+        this.updateClocks();
+        return this.turnTimeRemaining;
+    }
+
+    public addGameEvent(event: GameSyncEvent) {
+        if (
+            event.type === SyncEventType.TurnStart &&
+            this.checkpointInterval > 0 &&
+            event.turnNum > 1 &&
+            (event.turnNum - 1) % this.checkpointInterval === 0
+        ) {
+            const state = getPublicState(this);
+            this.checkpointStates.set(event.turnNum, state);
+            this.checkpointStates.delete(
+                event.turnNum - this.checkpointInterval * this.maxStoredCheckpoints
+            );
+            event = { ...event, stateHash: hashPublicState(state) };
+        }
+        super.addGameEvent(event);
+    }
+
+    /**
+     * Gets the public state the game had at the checkpoint at the start of a turn,
+     * for a client whose state did not match its hash.
+     *
+     * Only the most recent checkpoints are kept, so this returns null for older turns.
+     */
+    public getCheckpoint(turnNum: number): StateCheckpoint | null {
+        const state = this.checkpointStates.get(turnNum);
+        return state ? { hash: hashPublicState(state), state: state } : null;
+    }
+
+    // Event Views ------------------------------------------------------
+
+    /**
+     * Checks if a card is in a hand or deck that a player is not allowed to see.
+     *
+     * @param zone - The zone the card was in when the event that contains it happened
+     */
+    public isCardHiddenFrom(
+        proto: CardPrototype,
+        zone: GameZone,
+        viewer: number
+    ) {
+        if (proto.owner === viewer) {
+            return false;
+        }
+        return zone === GameZone.Hand || zone === GameZone.Deck;
+    }
+
+    /**
+     * Gets the version of a list of events that a player is allowed to see.
+     *
+     * Events returned by handleAction contain every card in full, so they should be passed
+     * through this before being sent to a player. Cards in other players hands and decks
+     * are hidden until they are played or shown.
+     *
+     * @param viewer - The number of the player who will receive the events
+     * @param events - The events to redact, defaults to every event in the game so far
+     */
+    public getEventsFor(
+        viewer: number,
+        events: GameSyncEvent[] = this.events
+    ): GameSyncEvent[] {
+        return events.map(event =>
+            redactEvent(event, viewer, (proto, zone) =>
+                this.isCardHiddenFrom(proto, zone, viewer)
+            )
+        );
+    }
+
+    /** Sets the most events a player who fell behind is sent before they are sent a snapshot instead */
+    public setMaxReplayedEvents(count: number) {
+        this.maxReplayedEvents = count;
+    }
+
+    /**
+     * Gets what a player who missed some events needs to catch up with the game.
+     *
+     * If they only missed a few events they are sent again, otherwise the player is sent a snapshot
+     * of the game as it is now. Snapshots can't be taken while a card is prompting a choice,
+     * so the missed events are always sent then.
+     *
+     * @param viewer - The number of the player catching up
+     * @param lastEventNumber - The number of the last event the player received, or -1 if they received none
+     */
+    public getResync(viewer: number, lastEventNumber: number): GameResync {
+        const missed = this.getPastEvents().slice(lastEventNumber + 1);
+        if (missed.length > this.maxReplayedEvents && this.canSnapshot()) {
+            return {
+                type: ResyncType.Snapshot,
+                snapshot: redactSnapshot(this.snapshot(), viewer),
+                eventCount: this.getPastEvents().length
+            };
+        }
+        return {
+            type: ResyncType.Events,
+            events: this.getEventsFor(viewer, missed)
+        };
+    }
+
+    // Spectators -------------------------------------------------------
+
+    /**
+     * Lets someone watch the game without taking part in it.
+     *
+     * The spectator is sent every event so far, then each new batch of events as it happens.
+     * Every players hand and deck is hidden from them.
+     *
+     * @param send - Called with each batch of events for the spectator
+     * @param delay - How long to hold back events before sending them, in milliseconds
+     */
+    public addSpectator(
+        send: (events: GameSyncEvent[]) => void,
+        delay: number = 0
+    ): SpectatorStream {
+        const stream = new SpectatorStream(send, delay);
+        this.spectators.push(stream);
+        stream.push(this.getEventsFor(spectatorPlayerNumber));
+        return stream;
+    }
+
+    public removeSpectator(stream: SpectatorStream) {
+        remove(this.spectators, spectator => spectator === stream);
+        stream.close();
+    }
+
+    public getSpectators() {
+        return this.spectators;
+    }
+
+    private broadcastToSpectators(events: GameSyncEvent[]) {
+        if (this.spectators.length === 0) {
+            return;
+        }
+        const redacted = this.getEventsFor(spectatorPlayerNumber, events);
+        for (const spectator of this.spectators) {
+            spectator.push(redacted);
+        }
+    }
+
+    /** Eliminated players can no longer act, so the game passes on their behalf */
+    private passForEliminatedPlayers() {
+        while (
+            this.winner === -1 &&
+            this.canTakeAction() &&
+            this.isEliminated(this.getActivePlayer())
+        ) {
+            this.nextPhase();
+        }
+    }
+
     protected addActionHandlers() {
         this.actionSystem.addHandler(GameActionType.Pass, this.passAction);
         this.actionSystem.addHandler(
@@ -259,25 +815,43 @@ export class ServerGame extends Game {
             this.distributeDamageAction
         );
         this.actionSystem.addHandler(GameActionType.Quit, this.quit);
+        this.actionSystem.addHandler(
+            GameActionType.OfferDraw,
+            this.offerDrawAction
+        );
+        this.actionSystem.addHandler(
+            GameActionType.AcceptDraw,
+            this.acceptDrawAction
+        );
     }
 
-    protected distributeDamageAction(act: DistributeDamageAction): boolean {
+    private findUnit(id: string) {
+        return this.board.getAllUnits().find(unit => unit.getId() === id);
+    }
+
+    protected distributeDamageAction(act: DistributeDamageAction): ActionResult {
+        if (!this.isPlayerTurn(act.player)) {
+            return rejectAction(
+                ActionRejectionCode.NotYourTurn,
+                'Only the attacking player may order damage.'
+            );
+        }
+        if (this.phase !== GamePhase.DamageDistribution) {
+            return rejectAction(
+                ActionRejectionCode.WrongPhase,
+                'Damage can only be ordered during the damage distribution phase.'
+            );
+        }
         if (!this.attackDamageOrder) {
             throw new Error(
                 'Cannot distributed damage when damage order is undefined'
             );
         }
-        if (
-            !this.isPlayerTurn(act.player) ||
-            this.phase !== GamePhase.DamageDistribution
-        ) {
-            return false;
-        }
-        if (!isArray(act.order)) {
-            return false;
-        }
         if (!this.attackDamageOrder.has(act.attackerID)) {
-            return false;
+            return rejectAction(
+                ActionRejectionCode.InvalidTarget,
+                `Unit ${act.attackerID} is not a blocked attacker.`
+            );
         }
         const attackerBlockers = this.attackDamageOrder.get(act.attackerID);
         if (!attackerBlockers) {
@@ -285,13 +859,15 @@ export class ServerGame extends Game {
         }
         const defenders = new Set(attackerBlockers.map(u => u.getId()));
         const order = act.order as string[];
-        if (defenders.size !== order.length) {
-            return false;
-        }
-        for (const defender of order) {
-            if (!defenders.has(defender)) {
-                return false;
-            }
+        if (
+            !isArray(order) ||
+            defenders.size !== order.length ||
+            !order.every(defender => defenders.has(defender))
+        ) {
+            return rejectAction(
+                ActionRejectionCode.InvalidTarget,
+                'The damage order must list each blocker exactly once.'
+            );
         }
         this.attackDamageOrder.set(
             act.attackerID,
@@ -305,19 +881,43 @@ export class ServerGame extends Game {
         return true;
     }
 
-    protected modifyEnchantmentAction(act: ModifyEnchantmentAction): boolean {
+    protected modifyEnchantmentAction(act: ModifyEnchantmentAction): ActionResult {
         if (!this.isPlayerTurn(act.player)) {
-            return false;
+            return rejectAction(
+                ActionRejectionCode.NotYourTurn,
+                'Enchantments can only be modified during your turn.'
+            );
         }
-        const enchantment = this.getCardById(act.enchantmentId) as Enchantment;
+        const enchantment = this.cardPool.get(act.enchantmentId) as Enchantment;
         if (
             !enchantment ||
-            enchantment.getCardType() !== CardType.Enchantment ||
-            !enchantment.canChangePower(this.getCurrentPlayer(), this)
+            enchantment.getCardType() !== CardType.Enchantment
         ) {
-            return false;
+            return rejectAction(
+                ActionRejectionCode.UnknownCard,
+                `There is no enchantment with id ${act.enchantmentId}.`
+            );
+        }
+        const player = this.getCurrentPlayer();
+        if (!enchantment.canChangePower(player, this)) {
+            if (!player.getPool().meetsReq(enchantment.getModifyCost())) {
+                return rejectAction(
+                    ActionRejectionCode.CannotAfford,
+                    `You cannot afford to modify ${enchantment.getName()}.`
+                );
+            }
+            if (this.phase === GamePhase.Response) {
+                return rejectAction(
+                    ActionRejectionCode.WrongPhase,
+                    'Enchantments cannot be modified during a response.'
+                );
+            }
+            return rejectAction(
+                ActionRejectionCode.InvalidTarget,
+                `${enchantment.getName()} cannot be modified.`
+            );
         }
-        enchantment.empowerOrDiminish(this.getCurrentPlayer(), this);
+        enchantment.empowerOrDiminish(player, this);
         this.addGameEvent({
             type: SyncEventType.EnchantmentModified,
             enchantmentId: act.enchantmentId
@@ -325,81 +925,163 @@ export class ServerGame extends Game {
         return true;
     }
 
-    protected cardChoiceAction(act: CardChoiceAction): boolean {
+    /**
+     * Offers the other players a draw. The game is drawn once every
+     * remaining player has offered or accepted one in the same turn.
+     */
+    protected offerDrawAction(act: OfferDrawAction): ActionResult {
+        if (this.winner !== -1 || this.isEliminated(act.player)) {
+            return rejectAction(
+                ActionRejectionCode.GameOver,
+                `Player ${act.player} is no longer playing.`
+            );
+        }
+        this.agreeToDraw(act.player);
+        return true;
+    }
+
+    protected acceptDrawAction(act: AcceptDrawAction): ActionResult {
+        if (this.winner !== -1 || this.isEliminated(act.player)) {
+            return rejectAction(
+                ActionRejectionCode.GameOver,
+                `Player ${act.player} is no longer playing.`
+            );
+        }
+        const offered = Array.from(this.drawOffers).some(
+            player => player !== act.player && !this.isEliminated(player)
+        );
+        if (!offered) {
+            return rejectAction(
+                ActionRejectionCode.NoDrawOffer,
+                'No other player has offered a draw this turn.'
+            );
+        }
+        this.agreeToDraw(act.player);
+        return true;
+    }
+
+    private agreeToDraw(player: number) {
+        this.drawOffers.add(player);
+        this.addGameEvent({
+            type: SyncEventType.DrawOffered,
+            player: player
+        });
+        if (
+            this.getRemainingPlayers().every(other =>
+                this.drawOffers.has(other)
+            )
+        ) {
+            this.endGame(drawWinner);
+        }
+    }
+
+    protected cardChoiceAction(act: CardChoiceAction): ActionResult {
         const choices = this.currentChoices[act.player];
         if (choices === null) {
-            console.error('Reject choice from', act.player);
-            return false;
+            return rejectAction(
+                ActionRejectionCode.InvalidChoice,
+                `Player ${act.player} has no choice to make.`
+            );
         }
         const cardIds = act.choice as string[];
-        const cards = cardIds.map(id => this.getCardById(id));
+        const cards = cardIds.map(id => this.cardPool.get(id));
+        if (!cards.every(card => card !== undefined)) {
+            return rejectAction(
+                ActionRejectionCode.UnknownCard,
+                'The choice included an unknown card.'
+            );
+        }
         const min = Math.min(choices.validCards.size, choices.min);
         const max = choices.max;
         if (cards.length > max || cards.length < min) {
-            console.error(
-                this.name,
-                `Reject choice. Wanted between ${min} and ${max} cards but got ${
+            return rejectAction(
+                ActionRejectionCode.InvalidChoice,
+                `Wanted between ${min} and ${max} cards but got ${
                     cards.length
                 }.`
             );
-            return false;
         }
-        if (!cards.every(card => choices.validCards.has(card))) {
-            console.error(
-                this.name,
-                `Reject choice. Included invalid options.`,
-                cards,
-                choices.validCards
+        if (!cards.every(card => choices.validCards.has(card as Card))) {
+            return rejectAction(
+                ActionRejectionCode.InvalidChoice,
+                'The choice included invalid options.'
             );
-            return false;
         }
-        this.makeDeferredChoice(act.player, cards);
+        if (
+            this.isAllOrNoneChoice(choices) &&
+            cards.length !== 0 &&
+            cards.length !== choices.validCards.size
+        ) {
+            return rejectAction(
+                ActionRejectionCode.InvalidChoice,
+                'Either every card or no cards must be chosen.'
+            );
+        }
+        this.makeDeferredChoice(act.player, cards as Card[]);
         this.addGameEvent({
             type: SyncEventType.ChoiceMade,
             player: act.player,
-            choice: act.choice
+            choice: act.choice,
+            cards: (cards as Card[]).map(card => card.getPrototype()),
+            zones: (cards as Card[]).map(card => card.getLocation())
         });
         return true;
     }
 
     /* Preconditions
-        - Its the owners turn
+        - Its the owners turn, or the owner has priority and the card is an instant
         - Owner has has card in hand,
         - Owner can can afford to play card
         - The target given for the card is valid
     */
-    protected playCardAction(act: PlayCardAction): boolean {
+    protected playCardAction(act: PlayCardAction): ActionResult {
         const player = this.players[act.player];
-        if (!this.isPlayerTurn(act.player)) {
-            return false;
-        }
         const card = this.getPlayerCardById(player, act.id);
-        if (!card || !card.isPlayable(this)) {
-            return false;
+        if (!card) {
+            return rejectAction(
+                ActionRejectionCode.UnknownCard,
+                `There is no card with id ${act.id} in your hand.`
+            );
+        }
+        if (!card.isPlayable(this)) {
+            return this.explainUnplayable(card);
         }
 
         // Standard Targets
-        const targets: Unit[] = act.targetIds.map((id: string) =>
-            this.getUnitById(id)
-        );
-        card.getTargeter().setTargets(targets);
+        const targets = act.targetIds.map(id => this.findUnit(id));
+        if (targets.some(target => target === undefined)) {
+            return rejectAction(
+                ActionRejectionCode.InvalidTarget,
+                'A target of the card is not on the board.'
+            );
+        }
+        card.getTargeter().setTargets(targets as Unit[]);
         if (!card.getTargeter().targetsAreValid(card, this)) {
-            return false;
+            return rejectAction(
+                ActionRejectionCode.InvalidTarget,
+                `${card.getName()} cannot target that.`
+            );
         }
 
         // Item Host
         if (card.getCardType() === CardType.Item) {
-            if (!act.hostId) {
-                return false;
+            const host = act.hostId ? this.findUnit(act.hostId) : undefined;
+            if (!host) {
+                return rejectAction(
+                    ActionRejectionCode.InvalidTarget,
+                    'Items must be played on a unit.'
+                );
             }
             const item = card as Item;
-            item.getHostTargeter().setTargets([this.getUnitById(act.hostId)]);
+            item.getHostTargeter().setTargets([host]);
             if (!item.getHostTargeter().targetsAreValid(card, this)) {
-                return false;
+                return rejectAction(
+                    ActionRejectionCode.InvalidTarget,
+                    `${card.getName()} cannot be attached to ${host.getName()}.`
+                );
             }
         }
 
-        this.playCard(player, card);
         this.addGameEvent({
             type: SyncEventType.PlayCard,
             playerNo: act.player,
@@ -407,59 +1089,136 @@ export class ServerGame extends Game {
             targetIds: act.targetIds,
             hostId: act.hostId
         });
+        this.addCardToStack(player, card, act.targetIds, act.hostId);
         return true;
     }
 
+    /** Works out why a card in a players hand cannot be played */
+    private explainUnplayable(card: Card): ActionRejection {
+        if (!this.canPlayCardNow(card)) {
+            const hasPriority =
+                this.phase === GamePhase.Response
+                    ? this.priorityPlayer === card.getOwner()
+                    : this.isPlayerTurn(card.getOwner());
+            return hasPriority
+                ? rejectAction(
+                      ActionRejectionCode.WrongPhase,
+                      `${card.getName()} cannot be played during this phase.`
+                  )
+                : rejectAction(
+                      ActionRejectionCode.NotYourTurn,
+                      'Cards can only be played during your turn or in response to your opponent.'
+                  );
+        }
+        if (!this.players[card.getOwner()].getPool().meetsReq(card.getCost())) {
+            return rejectAction(
+                ActionRejectionCode.CannotAfford,
+                `You cannot afford to play ${card.getName()}.`
+            );
+        }
+        return rejectAction(
+            ActionRejectionCode.InvalidTarget,
+            `${card.getName()} has no valid targets or space to be played.`
+        );
+    }
+
     /* Preconditions
         - It is the first phase of the acting players turn
         - Unit is on the battlefield,
         - Unit can attack
     */
-    protected toggleAttackAction(act: ToggleAttackAction): boolean {
-        try {
-            const unit = this.getPlayerUnitById(act.player, act.unitId);
-            if (
-                !this.isPlayerTurn(act.player) ||
-                this.phase !== GamePhase.Play1 ||
-                !unit.canAttack()
-            ) {
-                return false;
+    protected toggleAttackAction(act: ToggleAttackAction): ActionResult {
+        const unit = this.board
+            .getPlayerUnits(act.player)
+            .find(toCheck => toCheck.getId() === act.unitId);
+        if (!unit) {
+            return rejectAction(
+                ActionRejectionCode.UnknownCard,
+                `You have no unit with id ${act.unitId}.`
+            );
+        }
+        if (!this.isPlayerTurn(act.player)) {
+            return rejectAction(
+                ActionRejectionCode.NotYourTurn,
+                'You can only attack during your turn.'
+            );
+        }
+        if (this.phase !== GamePhase.Play1) {
+            return rejectAction(
+                ActionRejectionCode.WrongPhase,
+                'Attackers can only be declared in the first phase of a turn.'
+            );
+        }
+        if (!unit.canAttack()) {
+            return rejectAction(
+                ActionRejectionCode.CannotAttack,
+                `${unit.getName()} cannot attack.`
+            );
+        }
+        if (act.target !== undefined) {
+            if (!this.canAttackPlayer(act.player, act.target)) {
+                return rejectAction(
+                    ActionRejectionCode.InvalidTarget,
+                    `Player ${act.target} cannot be attacked.`
+                );
             }
-            unit.toggleAttacking();
-            this.addGameEvent({
-                type: SyncEventType.AttackToggled,
-                player: act.player,
-                unitId: act.unitId
-            });
-            return true;
-        } catch {
-            return false;
+            this.setDefendingPlayer(act.target);
         }
+        unit.toggleAttacking();
+        this.addGameEvent({
+            type: SyncEventType.AttackToggled,
+            player: act.player,
+            unitId: act.unitId,
+            target: this.defendingPlayer
+        });
+        return true;
     }
 
     /* Preconditions
-       - It is the block phase of the opposing players turn
+       - It is the block phase and the acting player is being attacked
        - Unit is on the battlefield,
        - Unit can attack
     */
-    protected declareBlockerAction(act: DeclareBlockerAction) {
-        const blocker = this.getUnitById(act.blockerId);
-        if (
-            this.isPlayerTurn(act.player) ||
-            this.phase !== GamePhase.Block ||
-            !blocker
-        ) {
-            return false;
+    protected declareBlockerAction(act: DeclareBlockerAction): ActionResult {
+        if (act.player !== this.defendingPlayer) {
+            return rejectAction(
+                ActionRejectionCode.NotYourTurn,
+                'Only the attacked player can block.'
+            );
+        }
+        if (this.phase !== GamePhase.Block) {
+            return rejectAction(
+                ActionRejectionCode.WrongPhase,
+                'Blockers can only be declared during the block phase.'
+            );
+        }
+        const blocker = this.findUnit(act.blockerId);
+        if (!blocker || blocker.getOwner() !== act.player) {
+            return rejectAction(
+                ActionRejectionCode.UnknownCard,
+                `You have no unit with id ${act.blockerId}.`
+            );
         }
 
         if (act.blockedId === null) {
             blocker.setBlocking(null);
         } else {
-            const blocked = this.getPlayerUnitById(this.turn, act.blockedId);
-            blocker.setBlocking(blocked.getId());
-            if (!blocked || !blocker.canBlockTarget(blocked)) {
-                return false;
+            const blocked = this.board
+                .getPlayerUnits(this.turn)
+                .find(unit => unit.getId() === act.blockedId);
+            if (!blocked) {
+                return rejectAction(
+                    ActionRejectionCode.UnknownCard,
+                    `There is no attacker with id ${act.blockedId}.`
+                );
+            }
+            if (!blocker.canBlockTarget(blocked)) {
+                return rejectAction(
+                    ActionRejectionCode.CannotBlock,
+                    `${blocker.getName()} cannot block ${blocked.getName()}.`
+                );
             }
+            blocker.setBlocking(blocked.getId());
         }
 
         this.addGameEvent({
@@ -476,14 +1235,32 @@ export class ServerGame extends Game {
        - Player has not already played a resource
        - Requested resource type is valid
     */
-    protected playResourceAction(act: PlayResourceAction): boolean {
+    protected playResourceAction(act: PlayResourceAction): ActionResult {
         const player = this.players[act.player];
-        if (!(this.isPlayerTurn(act.player) && player.canPlayResource())) {
-            return false;
+        if (!this.isPlayerTurn(act.player)) {
+            return rejectAction(
+                ActionRejectionCode.NotYourTurn,
+                'Resources can only be played during your turn.'
+            );
+        }
+        if (this.phase === GamePhase.Response) {
+            return rejectAction(
+                ActionRejectionCode.WrongPhase,
+                'Resources cannot be played during a response.'
+            );
+        }
+        if (!player.canPlayResource()) {
+            return rejectAction(
+                ActionRejectionCode.AlreadyPlayedResource,
+                'You have already played a resource this turn.'
+            );
         }
         const res = this.format.basicResources.get(act.resourceType);
         if (!res) {
-            return false;
+            return rejectAction(
+                ActionRejectionCode.UnknownResource,
+                `There is no resource named ${act.resourceType}.`
+            );
         }
         player.playResource(res);
         this.addGameEvent({
@@ -494,16 +1271,14 @@ export class ServerGame extends Game {
         return true;
     }
 
-    protected passAction(act: PassAction): boolean {
+    protected passAction(act: PassAction): ActionResult {
         if (!this.isActivePlayer(act.player)) {
-            console.error(
-                `Player ${
-                    act.player
-                } Can't pass, they are not the active player ${this.getActivePlayer()} is`,
-                GamePhase[this.phase],
-                this.turn
+            return rejectAction(
+                ActionRejectionCode.NotYourTurn,
+                `Player ${act.player} cannot pass, player ${this.getActivePlayer()} is active during ${
+                    GamePhase[this.phase]
+                }.`
             );
-            return false;
         }
         this.nextPhase();
         return true;
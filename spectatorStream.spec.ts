@@ -0,0 +1,174 @@
+import { ServerGame } from 'app/game_model/serverGame';
+import { ClientGame } from 'app/game_model/clientGame';
+import { standardFormat } from 'app/game_model/gameFormat';
+import {
+    GameAction,
+    GameActionType
+} from 'app/game_model/events/gameAction';
+import {
+    isHiddenCard,
+    spectatorPlayerNumber
+} from 'app/game_model/events/redaction';
+import {
+    GameSyncEvent,
+    SyncDraw,
+    SyncEventType
+} from 'app/game_model/events/syncEvent';
+import { getStarterDecks } from 'app/game_model/scenarios/decks';
+import { Animator } from './animator';
+import { Log } from './log';
+import { Resource } from './resource';
+import { SpectatorStream } from './spectatorStream';
+
+const startServerGame = () => {
+    const decks = getStarterDecks();
+    const game = new ServerGame(
+        'game',
+        standardFormat,
+        [decks[0], decks[1]],
+        1234
+    );
+    game.startGame();
+    // Both players keep their opening hands
+    game.handleAction({ type: GameActionType.CardChoice, player: 0, choice: [] });
+    game.handleAction({ type: GameActionType.CardChoice, player: 1, choice: [] });
+    return game;
+};
+
+/** Passes until a new turn starts */
+const passTurn = (server: ServerGame) => {
+    const turnNum = server.getTurnNumber();
+    while (server.getTurnNumber() === turnNum) {
+        server.handleAction({
+            type: GameActionType.Pass,
+            player: server.getActivePlayer()
+        });
+    }
+};
+
+describe('SpectatorStream', () => {
+    let send: jasmine.Spy;
+    const events: GameSyncEvent[] = [
+        { type: SyncEventType.TurnStart, turn: 0, turnNum: 1 }
+    ];
+
+    beforeEach(() => {
+        jasmine.clock().install();
+        send = jasmine.createSpy('send');
+    });
+
+    afterEach(() => {
+        jasmine.clock().uninstall();
+    });
+
+    it('should hold back events for its delay', () => {
+        const stream = new SpectatorStream(send, 1000);
+
+        stream.push(events);
+        jasmine.clock().tick(999);
+        expect(send).not.toHaveBeenCalled();
+        jasmine.clock().tick(1);
+
+        expect(send).toHaveBeenCalledWith(events);
+    });
+
+    it('should drop events it is holding back once closed', () => {
+        const stream = new SpectatorStream(send, 1000);
+
+        stream.push(events);
+        stream.close();
+        jasmine.clock().tick(1000);
+        stream.push(events);
+
+        expect(send).not.toHaveBeenCalled();
+    });
+});
+
+describe('Spectating a ServerGame', () => {
+    let server: ServerGame;
+    let spectator: ClientGame;
+    let log: Log;
+    let received: GameSyncEvent[];
+    let stream: SpectatorStream;
+
+    beforeEach(() => {
+        server = startServerGame();
+        log = new Log();
+        log.setPlayerNames(['Ann', 'Bo']);
+        spectator = new ClientGame(
+            'spectator',
+            () => null,
+            new Animator(0),
+            log
+        );
+        spectator.spectate();
+        received = [];
+        stream = server.addSpectator(events => {
+            received.push(...events);
+            for (const event of events) {
+                spectator.syncServerEvent(spectatorPlayerNumber, event);
+            }
+        });
+    });
+
+    it('should be sent every event so far with both hands hidden', () => {
+        passTurn(server);
+
+        expect(received.length).toBe(server.getPastEvents().length);
+        const draws = received.filter(
+            event => event.type === SyncEventType.Draw && !event.fatigue
+        );
+        expect(draws.length).toBeGreaterThan(0);
+        for (const draw of draws) {
+            expect(isHiddenCard((draw as SyncDraw).card)).toBe(true);
+        }
+    });
+
+    it('should follow the game without being able to act in it', () => {
+        passTurn(server);
+        passTurn(server);
+
+        expect(spectator.isSpectating()).toBe(true);
+        expect(spectator.getTurnNumber()).toBe(server.getTurnNumber());
+        for (const player of [0, 1]) {
+            expect(spectator.getPlayer(player).getHand().length).toBe(
+                server.getPlayer(player).getHand().length
+            );
+        }
+    });
+
+    it('should describe players by name in its log', () => {
+        const active = server.getActivePlayer();
+        server
+            .getPlayer(active)
+            .getPool()
+            .add(
+                new Resource(10, 10, {
+                    Synthesis: 5,
+                    Growth: 5,
+                    Decay: 5,
+                    Renewal: 5
+                })
+            );
+        const play = server
+            .getLegalActions(active)
+            .find(action => action.type === GameActionType.PlayCard);
+        expect(play).toBeDefined();
+
+        server.handleAction(play as GameAction);
+
+        expect(log.getItems()[0].desc).toMatch(
+            new RegExp(`^${['Ann', 'Bo'][active]} played `)
+        );
+    });
+
+    it('should not be sent events once removed', () => {
+        server.removeSpectator(stream);
+        const count = received.length;
+
+        passTurn(server);
+
+        expect(received.length).toBe(count);
+        expect(server.getSpectators()).toEqual([]);
+    });
+});
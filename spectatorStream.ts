@@ -0,0 +1,50 @@
+import { GameSyncEvent } from './events/syncEvent';
+
+/**
+ * Relays the events of a running game to someone watching it.
+ *
+ * The stream is given events that have already been redacted for spectators. It can hold
+ * them back for a while before sending them so spectators can't relay what they see to a
+ * player while it still matters.
+ */
+export class SpectatorStream {
+    private closed = false;
+
+    /**
+     * @param send - Called with each batch of events for the spectator
+     * @param delay - How long to hold back events for, in milliseconds
+     */
+    constructor(
+        private send: (events: GameSyncEvent[]) => void,
+        private delay: number = 0
+    ) {}
+
+    public getDelay() {
+        return this.delay;
+    }
+
+    /** Sends a batch of events to the spectator once the streams delay has passed */
+    public push(events: GameSyncEvent[]) {
+        if (this.closed || events.length === 0) {
+            return;
+        }
+        if (this.delay <= 0) {
+            this.send(events);
+            return;
+        }
+        setTimeout(() => {
+            if (!this.closed) {
+                this.send(events);
+            }
+        }, this.delay);
+    }
+
+    /** Stops the stream, events that are still being held back are dropped */
+    public close() {
+        this.closed = true;
+    }
+
+    public isClosed() {
+        return this.closed;
+    }
+}
@@ -0,0 +1,138 @@
+import { sortBy } from 'lodash';
+import { Game } from './game';
+import { ResourcePrototype } from './resource';
+
+export interface PublicUnitState {
+    id: string;
+    dataId: string;
+    owner: number;
+    damage: number;
+    life: number;
+    maxLife: number;
+    exhausted: boolean;
+}
+
+export interface PublicPlayerState {
+    life: number;
+    pool: ResourcePrototype;
+    cryptSize: number;
+}
+
+/**
+ * The parts of a games state that every player can see.
+ * Both the server and the clients can build it, so it can be used to check they agree.
+ */
+export interface PublicGameState {
+    turnNum: number;
+    players: PublicPlayerState[];
+    units: PublicUnitState[];
+}
+
+/** A hash of the public state of a game, along with the state itself so differences can be reported */
+export interface StateCheckpoint {
+    hash: string;
+    state: PublicGameState;
+}
+
+/** Describes how a clients state differed from the servers at a checkpoint */
+export interface StateMismatch {
+    turnNum: number;
+    expectedHash: string;
+    actualHash: string;
+    differences: string[];
+}
+
+export function getPublicState(game: Game): PublicGameState {
+    return {
+        turnNum: game.getTurnNumber(),
+        players: game.getPlayers().map(player => ({
+            life: player.getLife(),
+            pool: player.getPool().getPrototype(),
+            cryptSize: game.getCrypt(player.getPlayerNumber()).length
+        })),
+        units: sortBy(
+            game
+                .getBoard()
+                .getAllUnits()
+                .map(unit => ({
+                    id: unit.getId(),
+                    dataId: unit.getDataId(),
+                    owner: unit.getOwner(),
+                    damage: unit.getDamage(),
+                    life: unit.getLife(),
+                    maxLife: unit.getMaxLife(),
+                    exhausted: unit.isExhausted()
+                })),
+            unit => unit.id
+        )
+    };
+}
+
+/**
+ * Hashes a public state with 32 bit FNV-1a.
+ * The state is always built with its keys in the same order, so its JSON is deterministic.
+ */
+export function hashPublicState(state: PublicGameState): string {
+    const json = JSON.stringify(state);
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < json.length; i++) {
+        hash ^= json.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+    return hash.toString(16);
+}
+
+export function createCheckpoint(game: Game): StateCheckpoint {
+    const state = getPublicState(game);
+    return { hash: hashPublicState(state), state: state };
+}
+
+/** Lists every difference between two public states, each prefixed with the path to the value that differs */
+export function diffPublicStates(
+    expected: PublicGameState,
+    actual: PublicGameState
+): string[] {
+    const differences: string[] = [];
+    const compare = (
+        path: string,
+        expectedValue: unknown,
+        actualValue: unknown
+    ) => {
+        if (JSON.stringify(expectedValue) !== JSON.stringify(actualValue)) {
+            differences.push(
+                `${path}: expected ${JSON.stringify(
+                    expectedValue
+                )} but was ${JSON.stringify(actualValue)}`
+            );
+        }
+    };
+
+    compare('turnNum', expected.turnNum, actual.turnNum);
+    expected.players.forEach((player, i) => {
+        const other = actual.players[i];
+        if (!other) {
+            differences.push(`players[${i}]: missing`);
+            return;
+        }
+        compare(`players[${i}].life`, player.life, other.life);
+        compare(`players[${i}].pool`, player.pool, other.pool);
+        compare(`players[${i}].cryptSize`, player.cryptSize, other.cryptSize);
+    });
+
+    const actualUnits = new Map(actual.units.map(unit => [unit.id, unit]));
+    for (const unit of expected.units) {
+        const other = actualUnits.get(unit.id);
+        if (!other) {
+            differences.push(`units[${unit.id}]: missing ${unit.dataId}`);
+            continue;
+        }
+        actualUnits.delete(unit.id);
+        for (const key of Object.keys(unit) as (keyof PublicUnitState)[]) {
+            compare(`units[${unit.id}].${key}`, unit[key], other[key]);
+        }
+    }
+    actualUnits.forEach(unit =>
+        differences.push(`units[${unit.id}]: unexpected ${unit.dataId}`)
+    );
+    return differences;
+}
@@ -1,13 +1,21 @@
 import { every } from 'lodash';
-import { Card  } from './card-types/card';
+import { Card, CardType } from './card-types/card';
 import { Game } from './game';
 import { Mechanic } from './mechanic';
+import { ParameterData, ParameterType } from './cards/parameters';
+import { TargeterData } from './cards/targeterList';
 import { Permanent } from './card-types/permanent';
 import { Unit, isUnit} from './card-types/unit';
 import { Enchantment, isEnchantment } from './card-types/enchantment';
 
 export abstract class Targeter {
     protected static id: string;
+    protected static ParameterTypes: {
+        name: string;
+        type: ParameterType;
+    }[] = [];
+    // The types of card the targeter can return (players are units)
+    protected static targetedCardTypes = new Set([CardType.Unit]);
     protected targets: Array<Permanent> = [];
     protected optional = false;
     protected usePronoun = false;
@@ -16,10 +24,36 @@ export abstract class Targeter {
         return this.id;
     }
 
+    public static getParameterTypes() {
+        return this.ParameterTypes;
+    }
+
+    public static canTarget(cardType: CardType) {
+        return this.targetedCardTypes.has(cardType);
+    }
+
     public getId(): string {
         return (this.constructor as any).id;
     }
 
+    /** Gets the values of the parameters listed in ParameterTypes, in the same order */
+    public getParameterValues(): ParameterData[] {
+        return [];
+    }
+
+    /** Converts the targeter to data that TargeterList can build it from */
+    public toData(): TargeterData {
+        const data: TargeterData = {
+            id: this.getId(),
+            optional: this.optional
+        };
+        const parameters = this.getParameterValues();
+        if (parameters.length > 0) {
+            data.parameters = parameters;
+        }
+        return data;
+    }
+
     public needsInput(): boolean {
         return true;
     }
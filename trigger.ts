@@ -1,13 +1,22 @@
-import { Card } from './card-types/card';
+import { Card, CardType } from './card-types/card';
 import { Game } from './game';
 import { EvalContext, TriggeredMechanic } from './mechanic';
 
 export abstract class Trigger {
     protected static id: string;
+    // Spells leave play as soon as they are played, so most triggers only work on permanents
+    protected static validCardTypes = new Set([
+        CardType.Unit,
+        CardType.Item,
+        CardType.Enchantment
+    ]);
     protected mechanic?: TriggeredMechanic;
     static getId() {
         return this.id;
     }
+    static isValidParent(cardType: CardType) {
+        return this.validCardTypes.has(cardType);
+    }
     public getId(): string {
         return (this.constructor as any).id;
     }